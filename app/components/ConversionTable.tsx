@@ -0,0 +1,56 @@
+export type ConversionTableRow = {
+  key: string;
+  label: React.ReactNode;
+  generations: number;
+  addedToCart: number;
+  rate: number;
+};
+
+type ConversionTableProps = {
+  title: string;
+  labelHeader: string;
+  rows: ConversionTableRow[];
+};
+
+export const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+// Generations -> add-to-cart table shared by the stats and shop pages.
+export function ConversionTable({
+  title,
+  labelHeader,
+  rows,
+}: ConversionTableProps) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+      <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+        {title}
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No generations in this range
+        </p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left py-2 px-3">{labelHeader}</th>
+              <th className="text-right py-2 px-3">Generations</th>
+              <th className="text-right py-2 px-3">Added to Cart</th>
+              <th className="text-right py-2 px-3">Conversion</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td className="py-2 px-3">{row.label}</td>
+                <td className="py-2 px-3 text-right">{row.generations}</td>
+                <td className="py-2 px-3 text-right">{row.addedToCart}</td>
+                <td className="py-2 px-3 text-right">{formatRate(row.rate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
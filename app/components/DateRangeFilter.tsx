@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "@remix-run/react";
+import { Calendar } from "react-date-range";
+import { format, parseISO } from "date-fns";
+import "react-date-range/dist/styles.css";
+import "react-date-range/dist/theme/default.css";
+import { DATE_PRESETS } from "~/utils/dateRanges";
+import { TimezoneSelect } from "~/components/TimezoneSelect";
+
+type DateRangeFilterProps = {
+  dateFilter: string;
+  customStart: string | null;
+  customEnd: string | null;
+  timezone: string;
+  children?: React.ReactNode;
+};
+
+// Preset and custom date range picker driven by the `dateFilter`, `start`,
+// `end` and `tz` search params. Every page with a date range uses it, read
+// on the server by `getDateRangeFilter`.
+export function DateRangeFilter({
+  dateFilter,
+  customStart,
+  customEnd,
+  timezone,
+  children,
+}: DateRangeFilterProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [calendarOpen, setCalendarOpen] = useState<null | "start" | "end">(
+    null
+  );
+  const [pendingStart, setPendingStart] = useState<string | null>(
+    customStart || null
+  );
+  const [pendingEnd, setPendingEnd] = useState<string | null>(
+    customEnd || null
+  );
+
+  // Date filter handler
+  const handleDateFilter = (filter: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("dateFilter", filter);
+    if (filter !== "custom") {
+      params.delete("start");
+      params.delete("end");
+    }
+    setSearchParams(params);
+    setCalendarOpen(null);
+  };
+
+  // Handle calendar date selection
+  const handleCalendarSelect = (date: Date) => {
+    const formatted = format(date, "yyyy-MM-dd");
+    if (calendarOpen === "start") {
+      setPendingStart(formatted);
+      setCalendarOpen(null);
+    } else if (calendarOpen === "end") {
+      setPendingEnd(formatted);
+      setCalendarOpen(null);
+    }
+  };
+
+  // Apply range when both dates are set
+  useEffect(() => {
+    if (dateFilter === "custom" && pendingStart && pendingEnd) {
+      const params = new URLSearchParams(searchParams);
+      params.set("dateFilter", "custom");
+      params.set("start", pendingStart);
+      params.set("end", pendingEnd);
+      setSearchParams(params);
+    }
+    // eslint-disable-next-line
+  }, [pendingStart, pendingEnd]);
+
+  // Calendar value
+  const calendarValue =
+    calendarOpen === "start"
+      ? pendingStart
+        ? parseISO(pendingStart)
+        : new Date()
+      : pendingEnd
+      ? parseISO(pendingEnd)
+      : new Date();
+
+  return (
+    <>
+      {/* Date Filters */}
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {DATE_PRESETS.map((opt) => (
+          <button
+            key={opt.value}
+            onClick={() => handleDateFilter(opt.value)}
+            className={`px-3 py-1 rounded text-sm font-medium border transition-colors ${
+              dateFilter === opt.value
+                ? "bg-blue-600 text-white"
+                : "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+            }`}
+          >
+            {opt.label}
+          </button>
+        ))}
+        <TimezoneSelect timezone={timezone} />
+        {children && <div className="ml-auto">{children}</div>}
+      </div>
+      {/* Custom Range Start/End Buttons */}
+      {dateFilter === "custom" && (
+        <div className="mb-6 flex items-center gap-2">
+          <button
+            className="text-sm px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+            onClick={() => setCalendarOpen("start")}
+          >
+            Start: {pendingStart || "Select"}
+          </button>
+          <span className="text-gray-500">to</span>
+          <button
+            className="text-sm px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+            onClick={() => setCalendarOpen("end")}
+          >
+            End: {pendingEnd || "Select"}
+          </button>
+        </div>
+      )}
+      {/* Calendar Modal Popup for Start/End */}
+      {calendarOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 relative">
+            <button
+              className="absolute top-2 right-2 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 text-xl"
+              onClick={() => setCalendarOpen(null)}
+              aria-label="Close"
+            >
+              ×
+            </button>
+            <Calendar
+              date={calendarValue}
+              onChange={handleCalendarSelect}
+              maxDate={new Date()}
+              showMonthAndYearPickers={true}
+              color="#2563eb"
+            />
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,32 @@
+type ExportLinksProps = {
+  href: string;
+  params?: URLSearchParams;
+};
+
+// CSV/JSON download links for an export resource route.
+export function ExportLinks({ href, params }: ExportLinksProps) {
+  const linkFor = (format: "csv" | "json") => {
+    const searchParams = new URLSearchParams(params);
+    searchParams.delete("page");
+    searchParams.set("format", format);
+    return `${href}?${searchParams}`;
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="text-gray-500 dark:text-gray-400">Export:</span>
+      <a
+        href={linkFor("csv")}
+        className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 hover:underline"
+      >
+        CSV
+      </a>
+      <a
+        href={linkFor("json")}
+        className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 hover:underline"
+      >
+        JSON
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+const isContainer = (
+  value: JsonValue
+): value is JsonValue[] | { [key: string]: JsonValue } =>
+  typeof value === "object" && value !== null;
+
+function JsonPrimitive({ value }: { value: JsonValue }) {
+  if (typeof value === "string") {
+    return (
+      <span className="text-green-700 dark:text-green-400 break-all">
+        &quot;{value}&quot;
+      </span>
+    );
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return (
+      <span className="text-blue-700 dark:text-blue-400">{String(value)}</span>
+    );
+  }
+  return <span className="text-gray-500">null</span>;
+}
+
+function JsonNode({
+  name,
+  value,
+  depth,
+}: {
+  name?: string;
+  value: JsonValue;
+  depth: number;
+}) {
+  const label = name !== undefined && (
+    <span className="text-purple-700 dark:text-purple-400">{name}: </span>
+  );
+
+  if (!isContainer(value)) {
+    return (
+      <div className="pl-4">
+        {label}
+        <JsonPrimitive value={value} />
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+
+  if (entries.length === 0) {
+    return (
+      <div className="pl-4">
+        {label}
+        {open}
+        {close}
+      </div>
+    );
+  }
+
+  // Top two levels start expanded; deeper ones are one click away
+  return (
+    <details open={depth < 2} className="pl-4">
+      <summary className="cursor-pointer select-none">
+        {label}
+        {open}
+        <span className="text-gray-500 text-xs"> {entries.length} items </span>
+        {close}
+      </summary>
+      {entries.map(([key, item]) => (
+        <JsonNode key={key} name={key} value={item} depth={depth + 1} />
+      ))}
+    </details>
+  );
+}
+
+// Pretty-printed, collapsible view of a JSON column.
+export function JsonViewer({ value }: { value: unknown }) {
+  if (value === null || value === undefined) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Empty</p>;
+  }
+  return (
+    <div className="font-mono text-xs text-gray-900 dark:text-gray-100 -ml-4 overflow-x-auto">
+      <JsonNode value={value as JsonValue} depth={0} />
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+export function MethodBadge({ method }: { method: string }) {
+  return (
+    <span
+      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+        method === "GET"
+          ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+          : method === "POST"
+          ? "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+          : "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
+      }`}
+    >
+      {method}
+    </span>
+  );
+}
+
+export function StatusBadge({ status }: { status: number }) {
+  return (
+    <span
+      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+        status >= 200 && status < 300
+          ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+          : status >= 400 && status < 500
+          ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+          : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+      }`}
+    >
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,191 @@
+import { Form } from "@remix-run/react";
+
+type PlanActionsProps = {
+  plan: {
+    availableGenerations: number;
+    hasUnlimitedGenerations: boolean;
+    isActive: boolean;
+  };
+  // The last reset time is entered in this timezone
+  timezone: string;
+  result?: { intent?: string; error?: string; message?: string };
+};
+
+const inputClassName =
+  "w-full rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm";
+
+function PlanActionForm({
+  intent,
+  title,
+  description,
+  submitLabel,
+  result,
+  children,
+}: {
+  intent: string;
+  title: string;
+  description: string;
+  submitLabel: string;
+  result?: PlanActionsProps["result"];
+  children?: React.ReactNode;
+}) {
+  const current = result?.intent === intent ? result : undefined;
+
+  return (
+    <details
+      open={!!current?.error}
+      className="border-t border-gray-200 dark:border-gray-700 py-3"
+    >
+      <summary className="cursor-pointer text-sm font-medium text-gray-900 dark:text-white">
+        {title}
+      </summary>
+      <Form method="post" className="mt-3 space-y-3">
+        <input type="hidden" name="intent" value={intent} />
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {description}
+        </p>
+        {children}
+        <input
+          name="reason"
+          required
+          placeholder="Reason (recorded in the audit log)"
+          aria-label="Reason"
+          className={inputClassName}
+        />
+        <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+          <input type="checkbox" name="confirm" value="yes" required />I confirm
+          this change to the merchant&apos;s plan
+        </label>
+        <button
+          type="submit"
+          className="px-3 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+        >
+          {submitLabel}
+        </button>
+        {current?.error && (
+          <p className="text-xs text-red-600">{current.error}</p>
+        )}
+      </Form>
+    </details>
+  );
+}
+
+// Credit and status fixes for support, each confirmed and audited.
+export function PlanActions({ plan, timezone, result }: PlanActionsProps) {
+  return (
+    <div className="mt-6">
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-1">
+        Manage Plan
+      </h3>
+      {result?.message && (
+        <p className="mb-2 text-xs text-green-700 dark:text-green-400">
+          {result.message}
+        </p>
+      )}
+
+      <PlanActionForm
+        intent="grant-bonus"
+        title="Grant bonus generations"
+        description="Adds to the generations currently available."
+        submitLabel="Grant"
+        result={result}
+      >
+        <input
+          type="number"
+          name="amount"
+          min={1}
+          required
+          placeholder="Number of generations"
+          aria-label="Number of generations"
+          className={inputClassName}
+        />
+      </PlanActionForm>
+
+      <PlanActionForm
+        intent="reset-usage"
+        title="Reset generation counts"
+        description="Overwrites both counters and sets the last reset to now."
+        submitLabel="Reset"
+        result={result}
+      >
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Available
+            <input
+              type="number"
+              name="availableGenerations"
+              min={0}
+              required
+              defaultValue={plan.availableGenerations}
+              className={inputClassName}
+            />
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Used
+            <input
+              type="number"
+              name="totalGenerationsUsed"
+              min={0}
+              required
+              defaultValue={0}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+      </PlanActionForm>
+
+      <PlanActionForm
+        intent="set-unlimited"
+        title={
+          plan.hasUnlimitedGenerations
+            ? "Disable unlimited generations"
+            : "Enable unlimited generations"
+        }
+        description={
+          plan.hasUnlimitedGenerations
+            ? "The shop goes back to its available generation count."
+            : "The shop can generate without using up its credits."
+        }
+        submitLabel={plan.hasUnlimitedGenerations ? "Disable" : "Enable"}
+        result={result}
+      >
+        <input
+          type="hidden"
+          name="value"
+          value={String(!plan.hasUnlimitedGenerations)}
+        />
+      </PlanActionForm>
+
+      <PlanActionForm
+        intent="set-active"
+        title={plan.isActive ? "Deactivate plan" : "Activate plan"}
+        description={
+          plan.isActive
+            ? "The shop can no longer generate until the plan is reactivated."
+            : "The shop can generate again."
+        }
+        submitLabel={plan.isActive ? "Deactivate" : "Activate"}
+        result={result}
+      >
+        <input type="hidden" name="value" value={String(!plan.isActive)} />
+      </PlanActionForm>
+
+      <PlanActionForm
+        intent="set-last-reset"
+        title="Set last reset date"
+        description={`Changes when the plan's usage was last reset, in ${timezone}.`}
+        submitLabel="Save"
+        result={result}
+      >
+        <input type="hidden" name="tz" value={timezone} />
+        <input
+          type="datetime-local"
+          name="lastResetAt"
+          required
+          aria-label="Last reset"
+          className={inputClassName}
+        />
+      </PlanActionForm>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+type ProductThumbnailProps = {
+  src: string;
+  alt: string;
+  size?: "sm" | "lg";
+};
+
+export function ProductThumbnail({
+  src,
+  alt,
+  size = "sm",
+}: ProductThumbnailProps) {
+  const sizeClassName = size === "lg" ? "w-24 h-24" : "w-10 h-10";
+  if (!src) {
+    return (
+      <div
+        className={`${sizeClassName} rounded bg-gray-200 dark:bg-gray-700 flex-shrink-0`}
+      />
+    );
+  }
+  return (
+    <img
+      src={src}
+      alt={alt}
+      loading="lazy"
+      className={`${sizeClassName} rounded object-cover flex-shrink-0`}
+    />
+  );
+}
@@ -0,0 +1,33 @@
+import { Form } from "@remix-run/react";
+
+type RevealFormProps = {
+  // Hidden fields identifying what to reveal, posted along with the reason
+  fields: Record<string, string>;
+  error?: string;
+};
+
+// Admin-only form for viewing an unredacted secret. The reason ends up in
+// the audit log next to who asked and when.
+export function RevealForm({ fields, error }: RevealFormProps) {
+  return (
+    <Form method="post" className="mt-2 flex flex-wrap items-center gap-2">
+      <input type="hidden" name="intent" value="reveal" />
+      {Object.entries(fields).map(([name, value]) => (
+        <input key={name} type="hidden" name={name} value={value} />
+      ))}
+      <input
+        name="reason"
+        required
+        placeholder="Reason for revealing"
+        className="rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-2 py-1 text-xs"
+      />
+      <button
+        type="submit"
+        className="px-2 py-1 rounded bg-red-600 text-white text-xs hover:bg-red-700"
+      >
+        Reveal
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </Form>
+  );
+}
@@ -0,0 +1,154 @@
+import { Link } from "@remix-run/react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import { formatRate } from "~/components/ConversionTable";
+import { PeriodDelta } from "~/components/StatCard";
+
+type ShopperStats = {
+  uniqueShoppers: number;
+  repeatShoppers: number;
+  repeatRate: number;
+  distribution: { label: string; shoppers: number }[];
+};
+
+type ShopperAnalyticsProps = {
+  stats: ShopperStats;
+  // Same figures for the previous period, when the page has a date range
+  previousStats?: ShopperStats | null;
+  topShoppers: {
+    shopId: string;
+    userEmail: string;
+    generations: number;
+    addedToCart: number;
+  }[];
+  // Domains by shop ID; when given, top shoppers get a shop column
+  shopMap?: Record<string, string>;
+};
+
+// Shopper counts, repeat rate, generations-per-shopper histogram and the
+// most active shoppers, for the stats and shop pages.
+export function ShopperAnalytics({
+  stats,
+  previousStats,
+  topShoppers,
+  shopMap,
+}: ShopperAnalyticsProps) {
+  const statCards = [
+    {
+      label: "Unique Shoppers",
+      value: stats.uniqueShoppers,
+      current: stats.uniqueShoppers,
+      previous: previousStats?.uniqueShoppers,
+    },
+    {
+      label: "Repeat Shoppers",
+      value: stats.repeatShoppers,
+      current: stats.repeatShoppers,
+      previous: previousStats?.repeatShoppers,
+    },
+    {
+      label: "Repeat Rate",
+      value: formatRate(stats.repeatRate),
+      current: stats.repeatRate,
+      previous: previousStats?.repeatRate,
+    },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded shadow p-6 mb-8">
+      <div className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
+        Shoppers
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        {statCards.map((card) => (
+          <div
+            key={card.label}
+            className="rounded border border-gray-200 dark:border-gray-700 p-4"
+          >
+            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+              {card.label}
+            </div>
+            <div className="text-2xl font-bold text-gray-900 dark:text-white">
+              {card.value}
+            </div>
+            <PeriodDelta current={card.current} previous={card.previous} />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+            Generations per Shopper
+          </div>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={stats.distribution}
+                margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Bar dataKey="shoppers" name="Shoppers" fill="#2563eb" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div>
+          <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+            Top Shoppers
+          </div>
+          {topShoppers.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No generations in this range
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left py-2 px-3">Shopper</th>
+                  {shopMap && <th className="text-left py-2 px-3">Shop</th>}
+                  <th className="text-right py-2 px-3">Generations</th>
+                  <th className="text-right py-2 px-3">Added to Cart</th>
+                </tr>
+              </thead>
+              <tbody>
+                {topShoppers.map((shopper, index) => (
+                  <tr key={`${shopper.shopId}-${index}`}>
+                    <td className="py-2 px-3">{shopper.userEmail}</td>
+                    {shopMap && (
+                      <td className="py-2 px-3">
+                        <Link
+                          to={`/shop/${shopper.shopId}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {shopMap[shopper.shopId] ?? shopper.shopId}
+                        </Link>
+                      </td>
+                    )}
+                    <td className="py-2 px-3 text-right">
+                      {shopper.generations}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {shopper.addedToCart}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+type PeriodDeltaProps = {
+  current: number;
+  previous: number | null | undefined;
+  // For metrics where a rise is bad, such as error rates
+  lowerIsBetter?: boolean;
+};
+
+// Change against the previous period of the same length. Renders nothing
+// without a previous value, e.g. for "All Time".
+export function PeriodDelta({
+  current,
+  previous,
+  lowerIsBetter = false,
+}: PeriodDeltaProps) {
+  if (previous === null || previous === undefined) return null;
+
+  if (previous === 0) {
+    return (
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        {current === 0 ? "No change" : "Up from 0"} vs. previous period
+      </div>
+    );
+  }
+
+  const change = (current - previous) / Math.abs(previous);
+  const isBetter = lowerIsBetter ? change < 0 : change > 0;
+  const color =
+    change === 0
+      ? "text-gray-500 dark:text-gray-400"
+      : isBetter
+      ? "text-green-600 dark:text-green-400"
+      : "text-red-600 dark:text-red-400";
+
+  return (
+    <div className={`text-xs ${color}`}>
+      {change > 0 ? "▲" : change < 0 ? "▼" : "–"}{" "}
+      {Math.abs(change * 100).toFixed(1)}% vs. previous period
+    </div>
+  );
+}
+
+type StatCardProps = {
+  label: string;
+  value: React.ReactNode;
+  // The number behind `value` and its value in the previous period
+  current?: number;
+  previous?: number | null;
+  lowerIsBetter?: boolean;
+  children?: React.ReactNode;
+};
+
+export function StatCard({
+  label,
+  value,
+  current,
+  previous,
+  lowerIsBetter,
+  children,
+}: StatCardProps) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded shadow p-4">
+      <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+        {label}
+      </div>
+      <div className="text-2xl font-bold text-gray-900 dark:text-white">
+        {value}
+      </div>
+      {current !== undefined && (
+        <PeriodDelta
+          current={current}
+          previous={previous}
+          lowerIsBetter={lowerIsBetter}
+        />
+      )}
+      {children}
+    </div>
+  );
+}
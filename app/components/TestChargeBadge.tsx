@@ -0,0 +1,7 @@
+export function TestChargeBadge() {
+  return (
+    <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+      Test
+    </span>
+  );
+}
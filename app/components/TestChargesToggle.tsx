@@ -0,0 +1,26 @@
+import { useSearchParams } from "@remix-run/react";
+
+// Checkbox that flips the `includeTest` search param used by revenue figures.
+export function TestChargesToggle() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const checked = searchParams.get("includeTest") === "1";
+
+  const handleChange = () => {
+    const params = new URLSearchParams(searchParams);
+    if (checked) params.delete("includeTest");
+    else params.set("includeTest", "1");
+    setSearchParams(params, { preventScrollReset: true });
+  };
+
+  return (
+    <label className="inline-flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={handleChange}
+        className="rounded border-gray-300"
+      />
+      Include test charges
+    </label>
+  );
+}
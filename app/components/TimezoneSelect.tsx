@@ -0,0 +1,29 @@
+import { useSearchParams } from "@remix-run/react";
+import { timezoneOptions } from "~/utils/dateRanges";
+
+// Picker for the `tz` search param that reports are bucketed in, read on the
+// server by `getReportingTimezone`.
+export function TimezoneSelect({ timezone }: { timezone: string }) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const handleChange = (value: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("tz", value);
+    setSearchParams(params);
+  };
+
+  return (
+    <select
+      value={timezone}
+      onChange={(e) => handleChange(e.target.value)}
+      aria-label="Reporting timezone"
+      className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 px-2 py-1 text-sm"
+    >
+      {timezoneOptions(timezone).map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -11,9 +11,12 @@ import { createReadableStreamFromReadable } from "@remix-run/node";
 import { RemixServer } from "@remix-run/react";
 import { isbot } from "isbot";
 import { renderToPipeableStream } from "react-dom/server";
+import { startAlertScheduler } from "~/utils/alerts.server";
 
 const ABORT_DELAY = 5_000;
 
+startAlertScheduler();
+
 export default function handleRequest(
   request: Request,
   responseStatusCode: number,
@@ -1,11 +1,15 @@
 import {
+  Form,
   Links,
   Meta,
   Outlet,
   Scripts,
   ScrollRestoration,
+  useRouteLoaderData,
 } from "@remix-run/react";
-import type { LinksFunction } from "@remix-run/node";
+import { json, type LinksFunction, type LoaderFunction } from "@remix-run/node";
+import { getUser, type AuthUser } from "~/utils/auth.server";
+import { can, ROLE_LABELS } from "~/utils/roles";
 
 import "./tailwind.css";
 
@@ -22,7 +26,15 @@ export const links: LinksFunction = () => [
   },
 ];
 
+export const loader: LoaderFunction = async ({ request }) => {
+  const user = await getUser(request);
+  return json({ user });
+};
+
 export function Layout({ children }: { children: React.ReactNode }) {
+  const data = useRouteLoaderData<{ user: AuthUser | null }>("root");
+  const user = data?.user;
+
   return (
     <html lang="en">
       <head>
@@ -33,30 +45,131 @@ export function Layout({ children }: { children: React.ReactNode }) {
       </head>
       <body>
         {/* Navigation Bar */}
-        <nav className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800">
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-            <div className="flex h-14 items-center gap-6">
-              <a
-                href="/"
-                className="text-lg font-bold text-blue-600 dark:text-blue-400 hover:underline"
-              >
-                Dashboard
-              </a>
-              <a
-                href="/shops"
-                className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
-              >
-                Shops
-              </a>
-              <a
-                href="/generations"
-                className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
-              >
-                Generations Stats
-              </a>
+        {user && (
+          <nav className="bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+              <div className="flex h-14 items-center gap-6">
+                <a
+                  href="/"
+                  className="text-lg font-bold text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Dashboard
+                </a>
+                <a
+                  href="/shops"
+                  className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  Shops
+                </a>
+                <a
+                  href="/generations"
+                  className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  Generations Stats
+                </a>
+                <a
+                  href="/products"
+                  className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  Products
+                </a>
+                <a
+                  href="/cohorts"
+                  className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  Cohorts
+                </a>
+                <a
+                  href="/churn"
+                  className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  Churn
+                </a>
+                <a
+                  href="/credits"
+                  className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  Credits
+                </a>
+                <a
+                  href="/plans"
+                  className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                >
+                  Plans
+                </a>
+                {can(user.role, "billing:view") && (
+                  <a
+                    href="/revenue"
+                    className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    Revenue
+                  </a>
+                )}
+                {can(user.role, "logs:view") && (
+                  <a
+                    href="/logs"
+                    className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    Logs
+                  </a>
+                )}
+                {can(user.role, "logs:view") && (
+                  <a
+                    href="/endpoints"
+                    className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    Endpoint Health
+                  </a>
+                )}
+                {can(user.role, "logs:view") && (
+                  <a
+                    href="/webhooks"
+                    className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    Webhooks
+                  </a>
+                )}
+                {can(user.role, "alerts:manage") && (
+                  <a
+                    href="/alerts"
+                    className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    Alerts
+                  </a>
+                )}
+                {can(user.role, "audit:view") && (
+                  <a
+                    href="/audit"
+                    className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    Audit
+                  </a>
+                )}
+                {can(user.role, "users:manage") && (
+                  <a
+                    href="/users"
+                    className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    Users
+                  </a>
+                )}
+                <div className="ml-auto flex items-center gap-3 text-sm">
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {user.email} ({ROLE_LABELS[user.role]})
+                  </span>
+                  <Form method="post" action="/logout">
+                    <button
+                      type="submit"
+                      className="text-gray-700 dark:text-gray-200 hover:text-blue-600 dark:hover:text-blue-400"
+                    >
+                      Sign Out
+                    </button>
+                  </Form>
+                </div>
+              </div>
             </div>
-          </div>
-        </nav>
+          </nav>
+        )}
         {children}
         <ScrollRestoration />
         <Scripts />
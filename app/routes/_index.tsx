@@ -1,13 +1,29 @@
-import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
-import { useLoaderData, useSearchParams, Link } from "@remix-run/react";
+import {
+  json,
+  type LoaderFunction,
+  type MetaFunction,
+  type SerializeFrom,
+} from "@remix-run/node";
+import { useLoaderData, Link } from "@remix-run/react";
 import { prisma } from "~/utils/db.server";
-import type {
-  Shop,
-  Generation,
-  BillingLog,
-  Plan,
-  Session,
-} from "@prisma/client";
+import { requireUser } from "~/utils/auth.server";
+import { can } from "~/utils/roles";
+import { getShopStats, type ShopStats } from "~/utils/shopStats.server";
+import {
+  getRevenueCalculator,
+  isTestCharge,
+  parseIncludeTestCharges,
+} from "~/utils/revenue.server";
+import {
+  getDateRangeFilter,
+  type DateRangeCondition,
+} from "~/utils/dateFilters.server";
+import { TestChargesToggle } from "~/components/TestChargesToggle";
+import { DateRangeFilter } from "~/components/DateRangeFilter";
+import { PeriodDelta } from "~/components/StatCard";
+import type { Shop, Plan } from "@prisma/client";
+
+type SerializedShopStats = SerializeFrom<ShopStats>;
 
 export const meta: MetaFunction = () => {
   return [
@@ -20,98 +36,104 @@ export const meta: MetaFunction = () => {
 };
 
 export const loader: LoaderFunction = async ({ request }) => {
-  const url = new URL(request.url);
-  const shopsDateFilter = url.searchParams.get("shopsDateFilter") || "all";
-  const generationsDateFilter =
-    url.searchParams.get("generationsDateFilter") || "all";
-  const revenueDateFilter = url.searchParams.get("revenueDateFilter") || "all";
+  const user = await requireUser(request);
+  const canViewBilling = can(user.role, "billing:view");
+  const canViewPii = can(user.role, "shops:pii");
 
-  // Helper to get date filter condition
-  const getDateCondition = (filter: string, field: string = "createdAt") => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const sevenDaysAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const thirtyDaysAgo = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
-    switch (filter) {
-      case "today":
-        return { [field]: { gte: today } };
-      case "7days":
-        return { [field]: { gte: sevenDaysAgo } };
-      case "30days":
-        return { [field]: { gte: thirtyDaysAgo } };
-      default:
-        return {};
-    }
-  };
+  const url = new URL(request.url);
+  const { dateFilter, customStart, customEnd, timezone, range, previous } =
+    getDateRangeFilter(url.searchParams, "all");
+  const includeTestCharges = parseIncludeTestCharges(url.searchParams);
 
   // Shops
-  const shopsDateCondition = getDateCondition(shopsDateFilter);
-  const shops = await prisma.shop.findMany({
-    where: shopsDateCondition,
-    include: {
-      Generation: true,
-      BillingLog: true,
-      Plan: true,
-      Session: true,
-    },
+  const shopRecords = await prisma.shop.findMany({
+    where: range ? { createdAt: range } : {},
+    omit: { apiKey: true },
+    include: { Plan: true },
     orderBy: { createdAt: "desc" },
     take: 20,
   });
-  const totalShops = await prisma.shop.count({ where: shopsDateCondition });
-  const activeShops = shops.filter((shop) => !shop.isUninstalled).length;
-  const shopsWithPlans = shops.filter((shop) => shop.Plan).length;
+  const statsById = await getShopStats(
+    shopRecords.map((shop) => shop.id),
+    { includeBilling: canViewBilling, includeTestCharges }
+  );
+  const shops = shopRecords.map((shop) => ({
+    ...shop,
+    email: canViewPii ? shop.email : null,
+    phone: canViewPii ? shop.phone : null,
+    stats: statsById[shop.id],
+  }));
 
-  // Generations
-  const generationsDateCondition = getDateCondition(generationsDateFilter);
-  const totalGenerations = await prisma.generation.count({
-    where: generationsDateCondition,
-  });
+  const revenueCalculator = canViewBilling
+    ? await getRevenueCalculator()
+    : null;
 
-  // Revenue
-  const revenueDateCondition = getDateCondition(revenueDateFilter, "timestamp");
-  const billingLogs = await prisma.billingLog.findMany({
-    where: revenueDateCondition,
-  });
-  const totalRevenue = billingLogs.reduce((sum, log) => {
-    const transactionFee = log.price * 0.029;
-    return sum + (log.price - transactionFee);
-  }, 0);
+  // Card figures for a date range, run for the selected and previous period
+  const getStats = async (period: DateRangeCondition | undefined) => {
+    const shopsWhere = period ? { createdAt: period } : {};
+    const [totalShops, activeShops, totalGenerations, billingLogs] =
+      await Promise.all([
+        prisma.shop.count({ where: shopsWhere }),
+        prisma.shop.count({ where: { ...shopsWhere, isUninstalled: false } }),
+        prisma.generation.count({ where: period ? { createdAt: period } : {} }),
+        // Revenue (finance and admin only)
+        revenueCalculator
+          ? prisma.billingLog.findMany({
+              where: period ? { timestamp: period } : {},
+              select: {
+                price: true,
+                chargeId: true,
+                timestamp: true,
+                Shop: { select: { allowTestPayment: true } },
+              },
+            })
+          : null,
+      ]);
 
-  return json({
-    shops,
-    stats: {
+    let totalRevenue: number | null = null;
+    let testRevenue = 0;
+    if (revenueCalculator && billingLogs) {
+      totalRevenue = 0;
+      for (const log of billingLogs) {
+        const net = revenueCalculator.net(log.price, log.timestamp);
+        if (isTestCharge(log, log.Shop)) {
+          testRevenue += net;
+          if (!includeTestCharges) continue;
+        }
+        totalRevenue += net;
+      }
+    }
+    return {
       totalShops,
       activeShops,
       totalGenerations,
       totalRevenue,
-      shopsWithPlans,
-    },
+      testRevenue,
+    };
+  };
+
+  const [stats, previousStats] = await Promise.all([
+    getStats(range),
+    previous ? getStats(previous) : null,
+  ]);
+
+  return json({
+    shops,
+    stats,
+    previousStats,
     filters: {
-      shopsDateFilter,
-      generationsDateFilter,
-      revenueDateFilter,
+      dateFilter,
+      customStart,
+      customEnd,
+      timezone,
+      includeTestCharges,
     },
   });
 };
 
 export default function Index() {
-  const { shops, stats, filters } = useLoaderData<typeof loader>();
-  const [searchParams, setSearchParams] = useSearchParams();
-
-  // Handlers for each filter
-  const handleFilterChange = (key: string, value: string) => {
-    const newSearchParams = new URLSearchParams(searchParams);
-    newSearchParams.set(key, value);
-    setSearchParams(newSearchParams);
-  };
-
-  // Filter options
-  const filterOptions = [
-    { value: "all", label: "All Time" },
-    { value: "today", label: "Today" },
-    { value: "7days", label: "Last 7 Days" },
-    { value: "30days", label: "Last 30 Days" },
-  ];
+  const { shops, stats, previousStats, filters } =
+    useLoaderData<typeof loader>();
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -128,7 +150,14 @@ export default function Index() {
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Stats Cards with Filters */}
+        <DateRangeFilter
+          dateFilter={filters.dateFilter}
+          customStart={filters.customStart}
+          customEnd={filters.customEnd}
+          timezone={filters.timezone}
+        />
+
+        {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3 md:gap-6 mb-8">
           {/* Total Shops */}
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-3 md:p-6 border border-gray-200 dark:border-gray-700">
@@ -136,23 +165,14 @@ export default function Index() {
               <p className="text-xs md:text-sm font-medium text-gray-500 dark:text-gray-400">
                 Total Shops
               </p>
-              <select
-                className="text-xs rounded border-gray-300 dark:bg-gray-700 dark:text-gray-200"
-                value={filters.shopsDateFilter}
-                onChange={(e) =>
-                  handleFilterChange("shopsDateFilter", e.target.value)
-                }
-              >
-                {filterOptions.map((opt) => (
-                  <option key={opt.value} value={opt.value}>
-                    {opt.label}
-                  </option>
-                ))}
-              </select>
             </div>
             <p className="text-lg md:text-2xl font-semibold text-gray-900 dark:text-white">
               {stats.totalShops}
             </p>
+            <PeriodDelta
+              current={stats.totalShops}
+              previous={previousStats?.totalShops}
+            />
           </div>
 
           {/* Active Shops */}
@@ -165,6 +185,10 @@ export default function Index() {
             <p className="text-lg md:text-2xl font-semibold text-gray-900 dark:text-white">
               {stats.activeShops}
             </p>
+            <PeriodDelta
+              current={stats.activeShops}
+              previous={previousStats?.activeShops}
+            />
           </div>
 
           {/* Total Generations */}
@@ -173,49 +197,40 @@ export default function Index() {
               <p className="text-xs md:text-sm font-medium text-gray-500 dark:text-gray-400">
                 Total Generations
               </p>
-              <select
-                className="text-xs rounded border-gray-300 dark:bg-gray-700 dark:text-gray-200"
-                value={filters.generationsDateFilter}
-                onChange={(e) =>
-                  handleFilterChange("generationsDateFilter", e.target.value)
-                }
-              >
-                {filterOptions.map((opt) => (
-                  <option key={opt.value} value={opt.value}>
-                    {opt.label}
-                  </option>
-                ))}
-              </select>
             </div>
             <p className="text-lg md:text-2xl font-semibold text-gray-900 dark:text-white">
               {stats.totalGenerations}
             </p>
+            <PeriodDelta
+              current={stats.totalGenerations}
+              previous={previousStats?.totalGenerations}
+            />
           </div>
 
           {/* Total Revenue */}
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-3 md:p-6 border border-gray-200 dark:border-gray-700">
-            <div className="flex justify-between items-center mb-2">
-              <p className="text-xs md:text-sm font-medium text-gray-500 dark:text-gray-400">
-                Total Revenue
+          {stats.totalRevenue !== null && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-3 md:p-6 border border-gray-200 dark:border-gray-700">
+              <div className="flex justify-between items-center mb-2">
+                <p className="text-xs md:text-sm font-medium text-gray-500 dark:text-gray-400">
+                  Total Revenue
+                </p>
+              </div>
+              <p className="text-lg md:text-2xl font-semibold text-gray-900 dark:text-white">
+                ${stats.totalRevenue.toFixed(2)}
               </p>
-              <select
-                className="text-xs rounded border-gray-300 dark:bg-gray-700 dark:text-gray-200"
-                value={filters.revenueDateFilter}
-                onChange={(e) =>
-                  handleFilterChange("revenueDateFilter", e.target.value)
-                }
-              >
-                {filterOptions.map((opt) => (
-                  <option key={opt.value} value={opt.value}>
-                    {opt.label}
-                  </option>
-                ))}
-              </select>
+              <PeriodDelta
+                current={stats.totalRevenue}
+                previous={previousStats?.totalRevenue}
+              />
+              <div className="mt-2 flex flex-col gap-1">
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  ${stats.testRevenue.toFixed(2)} in test charges{" "}
+                  {filters.includeTestCharges ? "included" : "excluded"}
+                </span>
+                <TestChargesToggle />
+              </div>
             </div>
-            <p className="text-lg md:text-2xl font-semibold text-gray-900 dark:text-white">
-              ${stats.totalRevenue.toFixed(2)}
-            </p>
-          </div>
+          )}
         </div>
 
         {/* Shops Table */}
@@ -249,9 +264,11 @@ export default function Index() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       Generations
                     </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Revenue
-                    </th>
+                    {stats.totalRevenue !== null && (
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Revenue
+                      </th>
+                    )}
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       Created
                     </th>
@@ -264,21 +281,10 @@ export default function Index() {
                   {shops.map(
                     (
                       shop: Shop & {
-                        Generation: Generation[];
-                        BillingLog: BillingLog[];
                         Plan: Plan | null;
-                        Session: Session | null;
+                        stats: SerializedShopStats;
                       }
                     ) => {
-                      const shopRevenue = shop.BillingLog.reduce(
-                        (sum: number, log: BillingLog) => {
-                          const transactionFee = log.price * 0.029; // 2.90% transaction fee
-                          return sum + (log.price - transactionFee);
-                        },
-                        0
-                      );
-                      const generationsCount = shop.Generation.length;
-
                       return (
                         <tr
                           key={shop.id}
@@ -344,22 +350,32 @@ export default function Index() {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                             <div className="font-medium">
-                              {generationsCount}
+                              {shop.stats.generations}
                             </div>
+                            {shop.stats.lastActivityAt && (
+                              <div className="text-xs text-gray-400 dark:text-gray-500">
+                                Last{" "}
+                                {new Date(
+                                  shop.stats.lastActivityAt
+                                ).toLocaleDateString()}
+                              </div>
+                            )}
                             {shop.Plan && (
                               <div className="text-gray-500 dark:text-gray-400">
                                 {shop.Plan.totalGenerationsUsed} used
                               </div>
                             )}
                           </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                            <div className="font-medium">
-                              ${shopRevenue.toFixed(2)}
-                            </div>
-                            <div className="text-gray-500 dark:text-gray-400">
-                              {shop.BillingLog.length} transactions
-                            </div>
-                          </td>
+                          {stats.totalRevenue !== null && (
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                              <div className="font-medium">
+                                ${(shop.stats.revenue ?? 0).toFixed(2)}
+                              </div>
+                              <div className="text-gray-500 dark:text-gray-400">
+                                {shop.stats.transactions ?? 0} transactions
+                              </div>
+                            </td>
+                          )}
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                             {new Date(shop.createdAt).toLocaleDateString()}
                           </td>
@@ -0,0 +1,14 @@
+import { json, type ActionFunction } from "@remix-run/node";
+import { evaluateAlertRules } from "~/utils/alerts.server";
+
+// Entry point for an external scheduler:
+//   curl -X POST -H "Authorization: Bearer $ALERTS_CRON_SECRET" .../alerts/evaluate
+export const action: ActionFunction = async ({ request }) => {
+  const secret = process.env.ALERTS_CRON_SECRET;
+  if (!secret || request.headers.get("Authorization") !== `Bearer ${secret}`) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const created = await evaluateAlertRules();
+  return json({ created });
+};
@@ -0,0 +1,507 @@
+import {
+  json,
+  type ActionFunction,
+  type LoaderFunction,
+  type MetaFunction,
+} from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData } from "@remix-run/react";
+import type { AlertRuleType } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { recordAudit } from "~/utils/audit.server";
+import { ALERT_RULE_LABELS, evaluateAlertRules } from "~/utils/alerts.server";
+
+const RULE_TYPES = Object.keys(ALERT_RULE_LABELS) as AlertRuleType[];
+
+const inputClassName =
+  "rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm";
+
+type RuleRow = {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  threshold: number;
+  windowMinutes: number;
+  shopId: string | null;
+  webhookUrl: string | null;
+  email: string | null;
+  isEnabled: boolean;
+  lastEvaluatedAt: string | null;
+};
+
+type EventRow = {
+  id: string;
+  shopId: string | null;
+  message: string;
+  notifiedAt: string | null;
+  notifyError: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  AlertRule: { name: string };
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return (
+      (url.protocol === "http:" || url.protocol === "https:") && !!url.host
+    );
+  } catch {
+    return false;
+  }
+};
+
+const isRuleType = (value: FormDataEntryValue | null): value is AlertRuleType =>
+  typeof value === "string" && RULE_TYPES.includes(value as AlertRuleType);
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Alerts" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  await requireUser(request, "alerts:manage");
+
+  const [rules, events] = await Promise.all([
+    prisma.alertRule.findMany({ orderBy: { createdAt: "asc" } }),
+    prisma.alertEvent.findMany({
+      include: { AlertRule: { select: { name: true } } },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    }),
+  ]);
+
+  const shopIds = [...rules, ...events].flatMap((row) =>
+    row.shopId ? [row.shopId] : []
+  );
+  const shops = await prisma.shop.findMany({
+    where: { id: { in: shopIds } },
+    select: { id: true, domain: true },
+  });
+
+  return json({
+    rules,
+    events,
+    shopMap: Object.fromEntries(shops.map((s) => [s.id, s.domain])),
+    ruleTypes: RULE_TYPES.map((type) => ({
+      value: type,
+      label: ALERT_RULE_LABELS[type],
+    })),
+  });
+};
+
+export const action: ActionFunction = async ({ request }) => {
+  const user = await requireUser(request, "alerts:manage");
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "create") {
+    const name = String(formData.get("name") || "").trim();
+    const type = formData.get("type");
+    const threshold = Number(formData.get("threshold"));
+    const windowMinutes = Number(formData.get("windowMinutes"));
+    const shopDomain = String(formData.get("shop") || "").trim();
+    const webhookUrl = String(formData.get("webhookUrl") || "").trim();
+    const email = String(formData.get("email") || "").trim();
+
+    if (!name || !isRuleType(type)) {
+      return json(
+        { error: "Name and rule type are required" },
+        { status: 400 }
+      );
+    }
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      return json(
+        { error: "Threshold must be a positive number" },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(windowMinutes) || windowMinutes < 1) {
+      return json(
+        { error: "Window must be a whole number of minutes" },
+        { status: 400 }
+      );
+    }
+    if (webhookUrl && !isHttpUrl(webhookUrl)) {
+      return json(
+        { error: "Webhook URL must be a valid http:// or https:// URL" },
+        { status: 400 }
+      );
+    }
+    if (email && !email.includes("@")) {
+      return json({ error: "Email address is invalid" }, { status: 400 });
+    }
+
+    let shopId: string | null = null;
+    if (shopDomain) {
+      const shop = await prisma.shop.findUnique({
+        where: { domain: shopDomain },
+        select: { id: true },
+      });
+      if (!shop) {
+        return json(
+          { error: `No shop found for ${shopDomain}` },
+          { status: 400 }
+        );
+      }
+      shopId = shop.id;
+    }
+
+    const data = {
+      name,
+      type,
+      threshold,
+      windowMinutes,
+      shopId,
+      webhookUrl: webhookUrl || null,
+      email: email || null,
+    };
+    const rule = await prisma.alertRule.create({ data });
+    await recordAudit(user, {
+      action: "alert-rule.create",
+      shopId,
+      targetType: "AlertRule",
+      targetId: rule.id,
+      after: data,
+    });
+    return json({ error: null, message: null });
+  }
+
+  if (intent === "evaluate") {
+    const created = await evaluateAlertRules();
+    return json({
+      error: null,
+      message: `Rules evaluated, ${created} new alert${
+        created === 1 ? "" : "s"
+      }`,
+    });
+  }
+
+  const ruleId = String(formData.get("ruleId") || "");
+  const rule = await prisma.alertRule.findUnique({ where: { id: ruleId } });
+  if (!rule) {
+    throw new Response("Alert rule not found", { status: 404 });
+  }
+
+  if (intent === "toggle") {
+    await prisma.alertRule.update({
+      where: { id: rule.id },
+      data: { isEnabled: !rule.isEnabled },
+    });
+    await recordAudit(user, {
+      action: "alert-rule.toggle",
+      shopId: rule.shopId,
+      targetType: "AlertRule",
+      targetId: rule.id,
+      before: { name: rule.name, isEnabled: rule.isEnabled },
+      after: { name: rule.name, isEnabled: !rule.isEnabled },
+    });
+    return json({ error: null, message: null });
+  }
+
+  if (intent === "delete") {
+    await prisma.alertRule.delete({ where: { id: rule.id } });
+    await recordAudit(user, {
+      action: "alert-rule.delete",
+      shopId: rule.shopId,
+      targetType: "AlertRule",
+      targetId: rule.id,
+      before: {
+        name: rule.name,
+        type: rule.type,
+        threshold: rule.threshold,
+        windowMinutes: rule.windowMinutes,
+      },
+    });
+    return json({ error: null, message: null });
+  }
+
+  return json({ error: "Unknown action" }, { status: 400 });
+};
+
+export default function AlertsPage() {
+  const { rules, events, shopMap, ruleTypes } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const ruleTypeLabel = (type: AlertRuleType) =>
+    ruleTypes.find((option: { value: string }) => option.value === type)
+      ?.label ?? type;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Alerts
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              Rules checked on a schedule against logs, generations and plans
+            </p>
+          </div>
+          <Form method="post">
+            <input type="hidden" name="intent" value="evaluate" />
+            <button
+              type="submit"
+              className="px-4 py-2 rounded border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-200"
+            >
+              Evaluate Now
+            </button>
+          </Form>
+        </div>
+      </div>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {actionData?.error && (
+          <div className="mb-6 rounded border border-red-200 bg-red-50 dark:bg-red-900 dark:border-red-800 px-4 py-3 text-sm text-red-800 dark:text-red-200">
+            {actionData.error}
+          </div>
+        )}
+        {actionData?.message && (
+          <div className="mb-6 rounded border border-green-200 bg-green-50 dark:bg-green-900 dark:border-green-800 px-4 py-3 text-sm text-green-800 dark:text-green-200">
+            {actionData.message}
+          </div>
+        )}
+
+        {/* New Rule */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700 mb-8">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+              Add Rule
+            </h2>
+          </div>
+          <Form
+            method="post"
+            className="p-6 grid grid-cols-1 md:grid-cols-4 gap-3 items-end"
+          >
+            <input type="hidden" name="intent" value="create" />
+            <input
+              name="name"
+              placeholder="Name"
+              aria-label="Name"
+              required
+              className={inputClassName}
+            />
+            <select
+              name="type"
+              aria-label="Rule type"
+              className={`${inputClassName} md:col-span-2`}
+            >
+              {ruleTypes.map((option: { value: string; label: string }) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              name="threshold"
+              step="any"
+              min={0}
+              placeholder="Threshold"
+              aria-label="Threshold"
+              required
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              name="windowMinutes"
+              min={1}
+              defaultValue={15}
+              aria-label="Window in minutes"
+              title="Window in minutes. The same alert won't fire again for this long."
+              className={inputClassName}
+            />
+            <input
+              name="shop"
+              placeholder="Shop domain (optional, all shops if empty)"
+              aria-label="Shop domain"
+              className={inputClassName}
+            />
+            <input
+              type="url"
+              name="webhookUrl"
+              placeholder="Webhook URL (optional)"
+              aria-label="Webhook URL"
+              className={inputClassName}
+            />
+            <input
+              type="email"
+              name="email"
+              placeholder="Email (optional)"
+              aria-label="Email"
+              className={inputClassName}
+            />
+            <p className="md:col-span-3 text-xs text-gray-500 dark:text-gray-400">
+              For generation drops the threshold is the minimum number of
+              generations in the previous window for a shop to count as active.
+            </p>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-sm"
+            >
+              Add Rule
+            </button>
+          </Form>
+        </div>
+
+        {/* Rules */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700 mb-8 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left">Rule</th>
+                <th className="px-6 py-3 text-left">Threshold</th>
+                <th className="px-6 py-3 text-left">Scope</th>
+                <th className="px-6 py-3 text-left">Notify</th>
+                <th className="px-6 py-3 text-left">Last Checked</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-gray-500">
+                    No alert rules yet
+                  </td>
+                </tr>
+              )}
+              {rules.map((rule: RuleRow) => (
+                <tr
+                  key={rule.id}
+                  className={rule.isEnabled ? "" : "opacity-50"}
+                >
+                  <td className="px-6 py-4">
+                    <div className="font-medium text-gray-900 dark:text-white">
+                      {rule.name}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {ruleTypeLabel(rule.type)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    {rule.threshold} / {rule.windowMinutes} min
+                  </td>
+                  <td className="px-6 py-4">
+                    {rule.shopId ? (
+                      <Link
+                        to={`/shop/${rule.shopId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {shopMap[rule.shopId] ?? rule.shopId}
+                      </Link>
+                    ) : (
+                      "All shops"
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-xs">
+                    {[rule.webhookUrl, rule.email].filter(Boolean).join(", ") ||
+                      "Dashboard only"}
+                  </td>
+                  <td className="px-6 py-4 text-gray-500 dark:text-gray-400">
+                    {rule.lastEvaluatedAt
+                      ? new Date(rule.lastEvaluatedAt).toLocaleString()
+                      : "Never"}
+                  </td>
+                  <td className="px-6 py-4 text-right whitespace-nowrap">
+                    <Form method="post" className="inline">
+                      <input type="hidden" name="intent" value="toggle" />
+                      <input type="hidden" name="ruleId" value={rule.id} />
+                      <button
+                        type="submit"
+                        className="text-blue-600 hover:underline mr-4"
+                      >
+                        {rule.isEnabled ? "Disable" : "Enable"}
+                      </button>
+                    </Form>
+                    <Form
+                      method="post"
+                      className="inline"
+                      onSubmit={(event) => {
+                        if (!confirm(`Delete the rule "${rule.name}"?`)) {
+                          event.preventDefault();
+                        }
+                      }}
+                    >
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="ruleId" value={rule.id} />
+                      <button
+                        type="submit"
+                        className="text-red-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </Form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Events */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+              Recent Alerts
+            </h2>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left">Time</th>
+                <th className="px-6 py-3 text-left">Rule</th>
+                <th className="px-6 py-3 text-left">Shop</th>
+                <th className="px-6 py-3 text-left">Message</th>
+                <th className="px-6 py-3 text-left">Delivery</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {events.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-gray-500">
+                    No alerts have fired
+                  </td>
+                </tr>
+              )}
+              {events.map((event: EventRow) => (
+                <tr key={event.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                    {new Date(event.createdAt).toLocaleString()}
+                    <div className="text-xs">
+                      {event.resolvedAt
+                        ? `Resolved ${new Date(
+                            event.resolvedAt
+                          ).toLocaleString()}`
+                        : "Still firing"}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">{event.AlertRule.name}</td>
+                  <td className="px-6 py-4">
+                    {event.shopId ? (
+                      <Link
+                        to={`/shop/${event.shopId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {shopMap[event.shopId] ?? event.shopId}
+                      </Link>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td className="px-6 py-4">{event.message}</td>
+                  <td className="px-6 py-4 text-xs">
+                    {event.notifyError ? (
+                      <span className="text-red-600">{event.notifyError}</span>
+                    ) : event.notifiedAt ? (
+                      "Sent"
+                    ) : (
+                      "Pending"
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
+import { useLoaderData, Link, Form, useSearchParams } from "@remix-run/react";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+
+const PAGE_SIZE = 50;
+
+const inputClassName =
+  "mt-1 w-full rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm";
+
+type JsonObject = Record<string, unknown>;
+
+type AuditRow = {
+  id: string;
+  actorEmail: string;
+  action: string;
+  shopId: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  reason: string | null;
+  before: JsonObject | null;
+  after: JsonObject | null;
+  createdAt: string;
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Audit Log" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  await requireUser(request, "audit:view");
+
+  const url = new URL(request.url);
+  const actor = url.searchParams.get("actor") || "";
+  const action = url.searchParams.get("action") || "";
+  const shopId = url.searchParams.get("shopId") || "";
+  const cursor = url.searchParams.get("cursor");
+
+  // `action` may be a full action ("plan.grant-bonus") or just its type
+  // ("plan"), which matches every action of that type
+  const where: Prisma.AuditLogWhereInput = {
+    ...(actor && { actorEmail: actor }),
+    ...(action &&
+      (action.includes(".")
+        ? { action }
+        : { action: { startsWith: `${action}.` } })),
+    ...(shopId && { shopId }),
+  };
+
+  const [rows, actors, actions, shop] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: PAGE_SIZE + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    }),
+    // Grouped in the database, unlike `distinct`, which reads every row
+    prisma.auditLog.groupBy({
+      by: ["actorEmail"],
+      orderBy: { actorEmail: "asc" },
+    }),
+    prisma.auditLog.groupBy({
+      by: ["action"],
+      orderBy: { action: "asc" },
+    }),
+    shopId
+      ? prisma.shop.findUnique({
+          where: { id: shopId },
+          select: { id: true, domain: true },
+        })
+      : null,
+  ]);
+
+  const hasMore = rows.length > PAGE_SIZE;
+  const entries = rows.slice(0, PAGE_SIZE);
+
+  const shops = await prisma.shop.findMany({
+    where: {
+      id: {
+        in: entries.flatMap((entry) => (entry.shopId ? [entry.shopId] : [])),
+      },
+    },
+    select: { id: true, domain: true },
+  });
+
+  const actionNames = actions.map((row) => row.action);
+  return json({
+    entries,
+    nextCursor: hasMore ? entries[entries.length - 1].id : null,
+    shopMap: Object.fromEntries(shops.map((s) => [s.id, s.domain])),
+    actors: actors.map((row) => row.actorEmail),
+    actionTypes: [...new Set(actionNames.map((name) => name.split(".")[0]))],
+    actions: actionNames,
+    filters: { actor, action, shopId },
+    shop,
+  });
+};
+
+function Changes({
+  before,
+  after,
+}: {
+  before: JsonObject | null;
+  after: JsonObject | null;
+}) {
+  const keys = [
+    ...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]),
+  ];
+  if (keys.length === 0) {
+    return <span className="text-gray-400">—</span>;
+  }
+  const format = (value: unknown) =>
+    value === undefined ? "—" : JSON.stringify(value);
+
+  return (
+    <ul className="space-y-1">
+      {keys.map((key) => (
+        <li key={key} className="font-mono text-xs">
+          <span className="text-gray-500 dark:text-gray-400">{key}: </span>
+          {before && (
+            <>
+              <span className="text-red-700 dark:text-red-400 line-through">
+                {format(before[key])}
+              </span>{" "}
+              →{" "}
+            </>
+          )}
+          <span className="text-green-700 dark:text-green-400">
+            {format(after?.[key])}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function AuditPage() {
+  const {
+    entries,
+    nextCursor,
+    shopMap,
+    actors,
+    actionTypes,
+    actions,
+    filters,
+    shop,
+  } = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+
+  const withParams = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null) params.delete(key);
+      else params.set(key, value);
+    });
+    return `?${params}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-7xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          Audit Log
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          Who viewed sensitive data or changed records, and why.
+        </p>
+
+        <Form
+          method="get"
+          className="bg-white dark:bg-gray-800 rounded shadow p-4 mb-6 grid grid-cols-1 md:grid-cols-4 gap-3 items-end"
+        >
+          {filters.shopId && (
+            <input type="hidden" name="shopId" value={filters.shopId} />
+          )}
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Actor
+            <select
+              name="actor"
+              defaultValue={filters.actor}
+              className={inputClassName}
+            >
+              <option value="">Everyone</option>
+              {actors.map((email: string) => (
+                <option key={email} value={email}>
+                  {email}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Action
+            <select
+              name="action"
+              defaultValue={filters.action}
+              className={inputClassName}
+            >
+              <option value="">All actions</option>
+              {actionTypes.map((type: string) => (
+                <optgroup key={type} label={type}>
+                  <option value={type}>All {type} actions</option>
+                  {actions
+                    .filter((name: string) => name.startsWith(`${type}.`))
+                    .map((name: string) => (
+                      <option key={name} value={name}>
+                        {name}
+                      </option>
+                    ))}
+                </optgroup>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              className="px-4 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+            >
+              Apply
+            </button>
+            <Link
+              to="/audit"
+              className="px-4 py-2 rounded border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-200"
+            >
+              Reset
+            </Link>
+          </div>
+          {shop && (
+            <Link
+              to={withParams({ shopId: null, cursor: null })}
+              className="justify-self-start text-xs rounded-full px-3 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+            >
+              {shop.domain} ✕
+            </Link>
+          )}
+        </Form>
+
+        <div className="bg-white dark:bg-gray-800 rounded shadow overflow-x-auto">
+          {entries.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              No audit entries match these filters
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="text-left py-2 px-3">Time</th>
+                  <th className="text-left py-2 px-3">Actor</th>
+                  <th className="text-left py-2 px-3">Action</th>
+                  <th className="text-left py-2 px-3">Shop</th>
+                  <th className="text-left py-2 px-3">Changes</th>
+                  <th className="text-left py-2 px-3">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {entries.map((entry: AuditRow) => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="py-2 px-3 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="py-2 px-3">
+                      <Link
+                        to={withParams({
+                          actor: entry.actorEmail,
+                          cursor: null,
+                        })}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {entry.actorEmail}
+                      </Link>
+                    </td>
+                    <td className="py-2 px-3">
+                      <div className="font-mono text-xs">{entry.action}</div>
+                      {entry.targetType && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {entry.targetType} {entry.targetId}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 px-3">
+                      {entry.shopId ? (
+                        <Link
+                          to={`/shop/${entry.shopId}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {shopMap[entry.shopId] ?? entry.shopId}
+                        </Link>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="py-2 px-3">
+                      <Changes before={entry.before} after={entry.after} />
+                    </td>
+                    <td className="py-2 px-3 text-gray-700 dark:text-gray-300">
+                      {entry.reason ?? "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="flex justify-between p-4 text-sm">
+            {searchParams.get("cursor") ? (
+              <Link
+                to={withParams({ cursor: null })}
+                className="text-blue-600 hover:underline"
+              >
+                ← Newest
+              </Link>
+            ) : (
+              <span />
+            )}
+            {nextCursor && (
+              <Link
+                to={withParams({ cursor: nextCursor })}
+                className="text-blue-600 hover:underline"
+              >
+                Older →
+              </Link>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import {
+  json,
+  type ActionFunction,
+  type LoaderFunction,
+  type MetaFunction,
+} from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useSearchParams,
+} from "@remix-run/react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { recordAudit } from "~/utils/audit.server";
+import { can } from "~/utils/roles";
+import { UNINSTALL_REASONS } from "~/utils/churn";
+import {
+  getChurnedShops,
+  getChurnTimeline,
+  type ChurnedShop,
+} from "~/utils/churn.server";
+import { getReportingTimezone } from "~/utils/dateFilters.server";
+import { parsePeriodUnit } from "~/utils/periods.server";
+import { TimezoneSelect } from "~/components/TimezoneSelect";
+
+const inputClassName =
+  "rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-2 py-1 text-sm";
+
+type ChurnedShopRow = Omit<
+  ChurnedShop,
+  "installedAt" | "uninstalledAt" | "lastActivityAt"
+> & {
+  installedAt: string;
+  uninstalledAt: string;
+  lastActivityAt: string | null;
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Churn" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  const user = await requireUser(request);
+
+  const url = new URL(request.url);
+  const unit = parsePeriodUnit(url.searchParams);
+  const timezone = getReportingTimezone(url.searchParams);
+  const canViewBilling = can(user.role, "billing:view");
+
+  const timeline = await getChurnTimeline(unit, { timezone });
+  const churnedShops = await getChurnedShops(timeline.since);
+
+  return json({
+    unit,
+    timezone,
+    points: timeline.points,
+    // Lifetime revenue is billing data
+    churnedShops: churnedShops.map((shop) => ({
+      ...shop,
+      lifetimeRevenue: canViewBilling ? shop.lifetimeRevenue : null,
+    })),
+    canViewBilling,
+    canManage: can(user.role, "churn:manage"),
+  });
+};
+
+export const action: ActionFunction = async ({ request }) => {
+  const user = await requireUser(request, "churn:manage");
+  const formData = await request.formData();
+  const shopId = String(formData.get("shopId") || "");
+  const reason = String(formData.get("reason") || "");
+  const note = String(formData.get("note") || "").trim() || null;
+
+  if (!UNINSTALL_REASONS.some((option) => option === reason)) {
+    return json({ error: "Choose an uninstall reason" }, { status: 400 });
+  }
+  const shop = await prisma.shop.findUnique({
+    where: { id: shopId },
+    select: { id: true, domain: true, isUninstalled: true },
+  });
+  if (!shop || !shop.isUninstalled) {
+    return json(
+      { error: "Reasons can only be recorded for uninstalled shops" },
+      { status: 400 }
+    );
+  }
+
+  const existing = await prisma.uninstallReason.findUnique({
+    where: { shopId },
+  });
+  await prisma.uninstallReason.upsert({
+    where: { shopId },
+    create: { shopId, reason, note, actorEmail: user.email },
+    update: { reason, note, actorEmail: user.email },
+  });
+  await recordAudit(user, {
+    action: "shop.uninstall-reason",
+    shopId,
+    targetType: "Shop",
+    targetId: shopId,
+    before: existing
+      ? { reason: existing.reason, note: existing.note }
+      : undefined,
+    after: { reason, note },
+  });
+
+  return json({ message: `Saved uninstall reason for ${shop.domain}` });
+};
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString() : "—";
+
+export default function ChurnPage() {
+  const { unit, timezone, points, churnedShops, canViewBilling, canManage } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const setPeriod = (value: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("period", value);
+    setSearchParams(params);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-7xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          Churn
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          Installs against uninstalls, and the shops that left.
+        </p>
+
+        <div className="flex items-center gap-2 mb-6">
+          {(["week", "month"] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setPeriod(value)}
+              className={`px-3 py-1 rounded text-sm ${
+                unit === value
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+              }`}
+            >
+              By {value}
+            </button>
+          ))}
+          <TimezoneSelect timezone={timezone} />
+        </div>
+
+        {actionData?.error && (
+          <div className="mb-6 rounded border border-red-200 bg-red-50 dark:bg-red-900 dark:border-red-800 px-4 py-3 text-sm text-red-800 dark:text-red-200">
+            {actionData.error}
+          </div>
+        )}
+        {actionData?.message && (
+          <div className="mb-6 rounded border border-green-200 bg-green-50 dark:bg-green-900 dark:border-green-800 px-4 py-3 text-sm text-green-800 dark:text-green-200">
+            {actionData.message}
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 mb-8">
+          <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+            Installs vs. Uninstalls
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={points}
+                margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="installs" name="Installs" fill="#2563eb" />
+                <Bar dataKey="uninstalls" name="Uninstalls" fill="#dc2626" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 overflow-x-auto">
+          <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+            Churned Shops
+          </div>
+          {churnedShops.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No shops uninstalled in this range
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left py-2 px-3">Shop</th>
+                  <th className="text-left py-2 px-3">Installed</th>
+                  <th className="text-left py-2 px-3">Uninstalled</th>
+                  <th className="text-left py-2 px-3">Last Activity</th>
+                  {canViewBilling && (
+                    <th className="text-right py-2 px-3">Lifetime Revenue</th>
+                  )}
+                  <th className="text-left py-2 px-3">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {churnedShops.map((shop: ChurnedShopRow) => (
+                  <tr key={shop.id} className="align-top">
+                    <td className="py-2 px-3">
+                      <Link
+                        to={`/shop/${shop.id}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {shop.domain}
+                      </Link>
+                    </td>
+                    <td className="py-2 px-3">
+                      {formatDate(shop.installedAt)}
+                    </td>
+                    <td className="py-2 px-3">
+                      {formatDate(shop.uninstalledAt)}
+                      {shop.source === "updatedAt" && (
+                        <span
+                          className="ml-1 text-xs text-gray-500 dark:text-gray-400"
+                          title="No uninstall webhook was received; estimated from the shop's last update"
+                        >
+                          (est.)
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 px-3">
+                      {formatDate(shop.lastActivityAt)}
+                    </td>
+                    {canViewBilling && (
+                      <td className="py-2 px-3 text-right">
+                        ${(shop.lifetimeRevenue ?? 0).toFixed(2)}
+                      </td>
+                    )}
+                    <td className="py-2 px-3">
+                      {canManage ? (
+                        <Form method="post" className="flex flex-wrap gap-2">
+                          <input type="hidden" name="shopId" value={shop.id} />
+                          <select
+                            name="reason"
+                            defaultValue={shop.reason ?? ""}
+                            required
+                            className={inputClassName}
+                          >
+                            <option value="" disabled>
+                              Select a reason
+                            </option>
+                            {UNINSTALL_REASONS.map((reason) => (
+                              <option key={reason} value={reason}>
+                                {reason}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            name="note"
+                            defaultValue={shop.note ?? ""}
+                            placeholder="Note"
+                            className={inputClassName}
+                          />
+                          <button
+                            type="submit"
+                            className="px-3 py-1 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+                          >
+                            Save
+                          </button>
+                        </Form>
+                      ) : (
+                        <>
+                          {shop.reason ?? "—"}
+                          {shop.note && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {shop.note}
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
+import { useLoaderData, useSearchParams } from "@remix-run/react";
+import { requireUser } from "~/utils/auth.server";
+import { can } from "~/utils/roles";
+import {
+  getCohorts,
+  type Cohort,
+  type CohortCell,
+} from "~/utils/cohorts.server";
+import { getReportingTimezone } from "~/utils/dateFilters.server";
+import { parsePeriodUnit } from "~/utils/periods.server";
+import { TimezoneSelect } from "~/components/TimezoneSelect";
+
+type Metric = keyof CohortCell;
+
+const METRIC_LABELS: Record<Metric, string> = {
+  installed: "Still installed",
+  generating: "Still generating",
+  paying: "Paying",
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Cohorts" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  const user = await requireUser(request);
+
+  const url = new URL(request.url);
+  const unit = parsePeriodUnit(url.searchParams);
+  const timezone = getReportingTimezone(url.searchParams);
+  const canViewBilling = can(user.role, "billing:view");
+
+  const cohorts = await getCohorts(unit, { timezone });
+
+  // Paying counts are billing data
+  return json({
+    unit,
+    timezone,
+    canViewBilling,
+    cohorts: canViewBilling
+      ? cohorts
+      : cohorts.map((cohort) => ({
+          ...cohort,
+          cells: cohort.cells.map((cell) => ({ ...cell, paying: 0 })),
+        })),
+  });
+};
+
+// Blue scaled by retention share; dark text until the cell is mostly filled
+const cellStyle = (share: number) => ({
+  backgroundColor: `rgba(37, 99, 235, ${0.08 + share * 0.92})`,
+  color: share > 0.5 ? "#ffffff" : undefined,
+});
+
+export default function CohortsPage() {
+  const { unit, timezone, canViewBilling, cohorts } =
+    useLoaderData<typeof loader>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const metrics = (Object.keys(METRIC_LABELS) as Metric[]).filter(
+    (metric) => metric !== "paying" || canViewBilling
+  );
+  const requested = searchParams.get("metric") as Metric | null;
+  const metric =
+    requested && metrics.includes(requested) ? requested : "installed";
+
+  const setParam = (key: string, value: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set(key, value);
+    setSearchParams(params);
+  };
+
+  const periodCount = Math.max(
+    0,
+    ...cohorts.map((cohort: Cohort) => cohort.cells.length)
+  );
+  const periodName = unit === "week" ? "Week" : "Month";
+
+  const buttonClassName = (active: boolean) =>
+    `px-3 py-1 rounded text-sm ${
+      active
+        ? "bg-blue-600 text-white"
+        : "bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+    }`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-7xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          Install Cohorts
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          Shops grouped by install {unit}, and the share of each cohort still
+          active in every {unit} since.
+        </p>
+
+        <div className="flex flex-wrap gap-6 mb-6">
+          <div className="flex gap-2">
+            {(["week", "month"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setParam("period", value)}
+                className={buttonClassName(unit === value)}
+              >
+                By {value}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {metrics.map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setParam("metric", value)}
+                className={buttonClassName(metric === value)}
+              >
+                {METRIC_LABELS[value]}
+              </button>
+            ))}
+          </div>
+          <TimezoneSelect timezone={timezone} />
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 overflow-x-auto">
+          <div className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">
+            {METRIC_LABELS[metric]} by {unit} since install
+          </div>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr>
+                <th className="text-left py-2 px-3">Cohort</th>
+                <th className="text-right py-2 px-3">Shops</th>
+                {Array.from({ length: periodCount }, (_, index) => (
+                  <th key={index} className="text-center py-2 px-2">
+                    {periodName} {index}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {cohorts.map((cohort: Cohort) => (
+                <tr key={cohort.key}>
+                  <td className="py-1 px-3 whitespace-nowrap">
+                    {cohort.label}
+                  </td>
+                  <td className="py-1 px-3 text-right">{cohort.size}</td>
+                  {Array.from({ length: periodCount }, (_, index) => {
+                    const cell = cohort.cells[index];
+                    if (!cell || cohort.size === 0) {
+                      return <td key={index} className="py-1 px-2" />;
+                    }
+                    const share = cell[metric] / cohort.size;
+                    return (
+                      <td
+                        key={index}
+                        className="py-1 px-2 text-center text-gray-900"
+                        style={cellStyle(share)}
+                        title={`${cell[metric]} of ${cohort.size} shops`}
+                      >
+                        {(share * 100).toFixed(0)}%
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            {periodName} 0 is the install {unit}; the latest {unit} is still in
+            progress.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
+import { Link, useLoaderData, useSearchParams } from "@remix-run/react";
+import { requireUser } from "~/utils/auth.server";
+import { can } from "~/utils/roles";
+import {
+  getShopsRunningOut,
+  type RunningOutShop,
+} from "~/utils/creditForecast.server";
+import {
+  FORECAST_WINDOW_DAYS,
+  RUNNING_OUT_WINDOWS,
+  formatDaysLeft,
+} from "~/utils/creditForecast";
+
+type RunningOutRow = Omit<RunningOutShop, "forecast"> & {
+  forecast: Omit<RunningOutShop["forecast"], "runOutAt"> & {
+    runOutAt: string | null;
+  };
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Credits Running Out" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  const user = await requireUser(request);
+
+  const url = new URL(request.url);
+  const within = Number(url.searchParams.get("within"));
+  const withinDays = RUNNING_OUT_WINDOWS.find((days) => days === within) ?? 7;
+  const canViewPii = can(user.role, "shops:pii");
+
+  const shops = await getShopsRunningOut({ withinDays });
+
+  return json({
+    withinDays,
+    // Contact details are only shown to roles that may see them
+    shops: shops.map((shop) => ({
+      ...shop,
+      email: canViewPii ? shop.email : null,
+    })),
+    canViewPii,
+  });
+};
+
+export default function CreditsPage() {
+  const { withinDays, shops, canViewPii } = useLoaderData<typeof loader>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const setWithin = (value: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("within", String(value));
+    setSearchParams(params);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-7xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          Credits Running Out
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          Active shops on metered plans forecast to run out of generations,
+          based on their average usage over the last {FORECAST_WINDOW_DAYS}{" "}
+          days.
+        </p>
+
+        <div className="flex gap-2 mb-6">
+          {RUNNING_OUT_WINDOWS.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setWithin(value)}
+              className={`px-3 py-1 rounded text-sm ${
+                withinDays === value
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+              }`}
+            >
+              Within {value} days
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 overflow-x-auto">
+          <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+            {shops.length} shop{shops.length === 1 ? "" : "s"}
+          </div>
+          {shops.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No shops are forecast to run out in the next {withinDays} days
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left py-2 px-3">Shop</th>
+                  {canViewPii && <th className="text-left py-2 px-3">Email</th>}
+                  <th className="text-left py-2 px-3">Plan</th>
+                  <th className="text-right py-2 px-3">Credits Left</th>
+                  <th className="text-right py-2 px-3">Per Day</th>
+                  <th className="text-left py-2 px-3">Runs Out In</th>
+                  <th className="text-left py-2 px-3">Runs Out On</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {shops.map((shop: RunningOutRow) => (
+                  <tr key={shop.id}>
+                    <td className="py-2 px-3">
+                      <Link
+                        to={`/shop/${shop.id}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {shop.domain}
+                      </Link>
+                    </td>
+                    {canViewPii && (
+                      <td className="py-2 px-3">{shop.email ?? "—"}</td>
+                    )}
+                    <td className="py-2 px-3">{shop.planName}</td>
+                    <td className="py-2 px-3 text-right">
+                      {shop.forecast.availableGenerations}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {shop.forecast.dailyRate.toFixed(1)}
+                    </td>
+                    <td
+                      className={`py-2 px-3 ${
+                        shop.forecast.daysLeft === 0
+                          ? "text-red-600 dark:text-red-400 font-semibold"
+                          : ""
+                      }`}
+                    >
+                      {formatDaysLeft(shop.forecast.daysLeft)}
+                    </td>
+                    <td className="py-2 px-3 text-gray-500 dark:text-gray-400">
+                      {shop.forecast.runOutAt
+                        ? new Date(shop.forecast.runOutAt).toLocaleDateString()
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
+import { useLoaderData, Link, useSearchParams } from "@remix-run/react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { getDateRangeFilter } from "~/utils/dateFilters.server";
+import {
+  getCommonErrors,
+  getHealthBy,
+  getHealthTimeline,
+  type ErrorGroup,
+  type HealthRow,
+} from "~/utils/endpointHealth.server";
+import { DateRangeFilter } from "~/components/DateRangeFilter";
+import { formatRate } from "~/components/ConversionTable";
+
+const NOISY_SHOP_LIMIT = 15;
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Endpoint Health" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  await requireUser(request, "logs:view");
+
+  const url = new URL(request.url);
+  const { dateFilter, customStart, customEnd, timezone, range } =
+    getDateRangeFilter(url.searchParams, "7days");
+  const endpoint = url.searchParams.get("endpoint") || "";
+  const shopId = url.searchParams.get("shopId") || "";
+
+  const dateCondition = range ? { createdAt: range } : {};
+  const endpointCondition = endpoint ? { endpoint } : {};
+  const shopCondition = shopId ? { shopId } : {};
+  const where = { ...dateCondition, ...endpointCondition, ...shopCondition };
+
+  // Each table ignores its own focus filter so the other rows stay visible
+  const [byEndpoint, byShop, timeline, commonErrors] = await Promise.all([
+    getHealthBy("endpoint", { ...dateCondition, ...shopCondition }),
+    getHealthBy("shopId", { ...dateCondition, ...endpointCondition }),
+    getHealthTimeline({ range, endpoint, shopId }, timezone),
+    getCommonErrors(where),
+  ]);
+
+  const noisyShops = byShop
+    .filter((row) => row.key && row.clientErrors + row.serverErrors > 0)
+    .sort(
+      (a, b) =>
+        b.clientErrors + b.serverErrors - (a.clientErrors + a.serverErrors)
+    )
+    .slice(0, NOISY_SHOP_LIMIT);
+
+  const shops = await prisma.shop.findMany({
+    where: { id: { in: [...noisyShops.map((row) => row.key), shopId] } },
+    select: { id: true, domain: true },
+  });
+  const shopMap = Object.fromEntries(shops.map((s) => [s.id, s.domain]));
+
+  return json({
+    byEndpoint,
+    noisyShops,
+    timeline,
+    commonErrors,
+    shopMap,
+    endpoint,
+    shopId,
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+  });
+};
+
+function HealthTable({
+  title,
+  labelHeader,
+  rows,
+  label,
+  emptyText,
+}: {
+  title: string;
+  labelHeader: string;
+  rows: HealthRow[];
+  label: (row: HealthRow) => React.ReactNode;
+  emptyText: string;
+}) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+      <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+        {title}
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{emptyText}</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left py-2 px-3">{labelHeader}</th>
+              <th className="text-right py-2 px-3">Requests</th>
+              <th className="text-right py-2 px-3">4xx</th>
+              <th className="text-right py-2 px-3">5xx</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td className="py-2 px-3 max-w-xs truncate">{label(row)}</td>
+                <td className="py-2 px-3 text-right">{row.total}</td>
+                <td
+                  className={`py-2 px-3 text-right ${
+                    row.clientErrorRate >= 0.1
+                      ? "text-yellow-600 dark:text-yellow-400"
+                      : ""
+                  }`}
+                >
+                  {formatRate(row.clientErrorRate)}
+                </td>
+                <td
+                  className={`py-2 px-3 text-right ${
+                    row.serverErrorRate >= 0.01
+                      ? "text-red-600 dark:text-red-400 font-semibold"
+                      : ""
+                  }`}
+                >
+                  {formatRate(row.serverErrorRate)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function EndpointHealthPage() {
+  const {
+    byEndpoint,
+    noisyShops,
+    timeline,
+    commonErrors,
+    shopMap,
+    endpoint,
+    shopId,
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+  } = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+
+  const withParams = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null) params.delete(key);
+      else params.set(key, value);
+    });
+    return `?${params}`;
+  };
+
+  // Links into the log explorer for the same slice
+  const logsLink = (changes: Record<string, string>) =>
+    `/logs?${new URLSearchParams({
+      ...(endpoint && { endpoint }),
+      ...(shopId && { shop: shopId }),
+      ...changes,
+    })}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          Endpoint Health
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          Request volume and error rates from the API logs.
+        </p>
+
+        <DateRangeFilter
+          dateFilter={dateFilter}
+          customStart={customStart}
+          customEnd={customEnd}
+          timezone={timezone}
+        >
+          {endpoint && (
+            <Link
+              to={withParams({ endpoint: null })}
+              className="text-xs rounded-full px-3 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+            >
+              {endpoint} ✕
+            </Link>
+          )}
+          {shopId && (
+            <Link
+              to={withParams({ shopId: null })}
+              className="text-xs rounded-full px-3 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+            >
+              {shopMap[shopId] ?? shopId} ✕
+            </Link>
+          )}
+        </DateRangeFilter>
+
+        {/* Charts */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-8">
+          <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+            <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+              Request Volume
+            </div>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={timeline}
+                  margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Line
+                    type="monotone"
+                    dataKey="total"
+                    name="Requests"
+                    stroke="#2563eb"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+            <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+              Error Rates
+            </div>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={timeline}
+                  margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                  <YAxis
+                    tick={{ fontSize: 12 }}
+                    tickFormatter={(value: number) => formatRate(value)}
+                  />
+                  <Tooltip formatter={(value: number) => formatRate(value)} />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="clientErrorRate"
+                    name="4xx"
+                    stroke="#f59e0b"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="serverErrorRate"
+                    name="5xx"
+                    stroke="#dc2626"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-8">
+          <HealthTable
+            title="By Endpoint"
+            labelHeader="Endpoint"
+            rows={byEndpoint}
+            emptyText="No requests in this range"
+            label={(row) => (
+              <Link
+                to={withParams({ endpoint: row.key })}
+                className={`text-blue-600 hover:underline ${
+                  row.key === endpoint ? "font-semibold" : ""
+                }`}
+              >
+                {row.key}
+              </Link>
+            )}
+          />
+          <HealthTable
+            title="Noisiest Failing Shops"
+            labelHeader="Shop"
+            rows={noisyShops}
+            emptyText="No failing requests in this range"
+            label={(row) => (
+              <Link
+                to={withParams({ shopId: row.key })}
+                className={`text-blue-600 hover:underline ${
+                  row.key === shopId ? "font-semibold" : ""
+                }`}
+              >
+                {shopMap[row.key] ?? row.key}
+              </Link>
+            )}
+          />
+        </div>
+
+        {/* Common Errors */}
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+          <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+            Common Errors
+          </div>
+          {commonErrors.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No failing requests in this range
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left py-2 px-3">Message</th>
+                  <th className="text-left py-2 px-3">Status</th>
+                  <th className="text-left py-2 px-3">Endpoints</th>
+                  <th className="text-right py-2 px-3">Count</th>
+                  <th className="text-right py-2 px-3">Last Seen</th>
+                </tr>
+              </thead>
+              <tbody>
+                {commonErrors.map(
+                  (group: ErrorGroup & { lastSeenAt: string }) => (
+                    <tr key={group.message}>
+                      <td className="py-2 px-3 font-mono text-xs break-all">
+                        {group.message}
+                      </td>
+                      <td className="py-2 px-3">{group.statuses.join(", ")}</td>
+                      <td className="py-2 px-3 text-xs">
+                        {group.endpoints.slice(0, 3).map((path) => (
+                          <Link
+                            key={path}
+                            to={logsLink({
+                              endpoint: path,
+                              status: `${String(group.statuses[0])[0]}xx`,
+                            })}
+                            className="block text-blue-600 hover:underline truncate max-w-[14rem]"
+                          >
+                            {path}
+                          </Link>
+                        ))}
+                        {group.endpoints.length > 3 &&
+                          `+${group.endpoints.length - 3} more`}
+                      </td>
+                      <td className="py-2 px-3 text-right">{group.count}</td>
+                      <td className="py-2 px-3 text-right whitespace-nowrap">
+                        {new Date(group.lastSeenAt).toLocaleString()}
+                      </td>
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
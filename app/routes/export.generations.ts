@@ -0,0 +1,52 @@
+import type { LoaderFunction } from "@remix-run/node";
+import type { Generation } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { recordAudit } from "~/utils/audit.server";
+import { getDateRangeFilter } from "~/utils/dateFilters.server";
+import { parseCategoryFilter } from "~/utils/categories.server";
+import {
+  paginate,
+  parseExportFormat,
+  streamExport,
+  type ExportColumn,
+} from "~/utils/export.server";
+
+type GenerationExportRow = Generation & { Shop: { domain: string } };
+
+// Exports the generations behind the /generations stats for its date and
+// category filters.
+export const loader: LoaderFunction = async ({ request }) => {
+  const user = await requireUser(request);
+  await recordAudit(user, { action: "export.generations" });
+
+  const url = new URL(request.url);
+  const { range } = getDateRangeFilter(url.searchParams);
+  const { where: categoryWhere } = parseCategoryFilter(url.searchParams);
+  const where = { ...(range && { createdAt: range }), ...categoryWhere };
+
+  const columns: ExportColumn<GenerationExportRow>[] = [
+    { header: "id", value: (row) => row.id },
+    { header: "shopId", value: (row) => row.shopId },
+    { header: "shopDomain", value: (row) => row.Shop.domain },
+    { header: "productId", value: (row) => row.productId },
+    { header: "productName", value: (row) => row.productName },
+    { header: "productCategory", value: (row) => row.productCategory },
+    { header: "addedToCart", value: (row) => row.addedToCart },
+    { header: "createdAt", value: (row) => row.createdAt },
+  ];
+
+  return streamExport({
+    filename: "generations",
+    format: parseExportFormat(url.searchParams),
+    columns,
+    batches: paginate((page) =>
+      prisma.generation.findMany({
+        ...page,
+        where,
+        include: { Shop: { select: { domain: true } } },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      })
+    ),
+  });
+};
@@ -0,0 +1,151 @@
+import type { LoaderFunction } from "@remix-run/node";
+import type { BillingLog, Generation, Log } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { recordAudit } from "~/utils/audit.server";
+import { can } from "~/utils/roles";
+import { getDateRangeFilter } from "~/utils/dateFilters.server";
+import { isTestCharge } from "~/utils/revenue.server";
+import {
+  buildGenerationWhere,
+  parseGenerationFilters,
+} from "~/utils/shopHistory.server";
+import {
+  paginate,
+  parseExportFormat,
+  streamExport,
+  type ExportColumn,
+} from "~/utils/export.server";
+
+// Exports a single shop's generations, billing logs or API logs.
+export const loader: LoaderFunction = async ({ request, params }) => {
+  const user = await requireUser(request);
+  const { shopId, dataset } = params;
+
+  if (!shopId) {
+    throw new Response("Shop ID is required", { status: 400 });
+  }
+
+  const shop = await prisma.shop.findUnique({
+    where: { id: shopId },
+    select: { id: true, domain: true, allowTestPayment: true },
+  });
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const format = parseExportFormat(url.searchParams);
+  const { range } = getDateRangeFilter(url.searchParams, "all");
+  const filename = `${shop.domain}-${dataset}`;
+
+  // Recorded once access to the dataset has been checked
+  const recordExport = () =>
+    recordAudit(user, {
+      action: `export.shop.${dataset}`,
+      shopId,
+      targetType: "Shop",
+      targetId: shopId,
+    });
+
+  switch (dataset) {
+    case "generations": {
+      const canViewShopperEmails = can(user.role, "shoppers:pii");
+      const columns: ExportColumn<Generation>[] = [
+        { header: "id", value: (row) => row.id },
+        { header: "productId", value: (row) => row.productId },
+        { header: "productName", value: (row) => row.productName },
+        { header: "productHandle", value: (row) => row.productHandle },
+        { header: "productCategory", value: (row) => row.productCategory },
+        ...(canViewShopperEmails
+          ? [{ header: "userEmail", value: (row: Generation) => row.userEmail }]
+          : []),
+        { header: "addedToCart", value: (row) => row.addedToCart },
+        { header: "createdAt", value: (row) => row.createdAt },
+      ];
+      // Same filters as the generations table on the shop page
+      const where = buildGenerationWhere(
+        shopId,
+        parseGenerationFilters(url.searchParams, {
+          canSearchPii: canViewShopperEmails,
+        }),
+        range
+      );
+      await recordExport();
+      return streamExport({
+        filename,
+        format,
+        columns,
+        batches: paginate((page) =>
+          prisma.generation.findMany({
+            ...page,
+            where,
+            orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          })
+        ),
+      });
+    }
+
+    case "billing": {
+      if (!can(user.role, "billing:view")) {
+        throw new Response("You do not have access to billing data", {
+          status: 403,
+        });
+      }
+      const columns: ExportColumn<BillingLog>[] = [
+        { header: "id", value: (row) => row.id },
+        { header: "eventType", value: (row) => row.eventType },
+        { header: "planId", value: (row) => row.planId },
+        { header: "chargeId", value: (row) => row.chargeId },
+        { header: "credits", value: (row) => row.credits },
+        { header: "price", value: (row) => row.price },
+        { header: "isTest", value: (row) => isTestCharge(row, shop) },
+        { header: "timestamp", value: (row) => row.timestamp },
+      ];
+      await recordExport();
+      return streamExport({
+        filename,
+        format,
+        columns,
+        batches: paginate((page) =>
+          prisma.billingLog.findMany({
+            ...page,
+            where: { shopId, timestamp: range },
+            orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+          })
+        ),
+      });
+    }
+
+    case "logs": {
+      if (!can(user.role, "logs:view")) {
+        throw new Response("You do not have access to API logs", {
+          status: 403,
+        });
+      }
+      const columns: ExportColumn<Log>[] = [
+        { header: "id", value: (row) => row.id },
+        { header: "endpoint", value: (row) => row.endpoint },
+        { header: "method", value: (row) => row.method },
+        { header: "status", value: (row) => row.status },
+        { header: "createdAt", value: (row) => row.createdAt },
+      ];
+      await recordExport();
+      return streamExport({
+        filename,
+        format,
+        columns,
+        batches: paginate((page) =>
+          prisma.log.findMany({
+            ...page,
+            where: { shopId, createdAt: range },
+            orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          })
+        ),
+      });
+    }
+
+    default:
+      throw new Response("Unknown export", { status: 404 });
+  }
+};
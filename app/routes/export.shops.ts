@@ -0,0 +1,103 @@
+import type { LoaderFunction } from "@remix-run/node";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { recordAudit } from "~/utils/audit.server";
+import { can } from "~/utils/roles";
+import {
+  buildShopWhere,
+  findSortedShopIds,
+  parseShopFilters,
+} from "~/utils/shopFilters.server";
+import { getShopStats, type ShopStats } from "~/utils/shopStats.server";
+import {
+  parseExportFormat,
+  streamExport,
+  type ExportColumn,
+} from "~/utils/export.server";
+import type { Plan, Shop } from "@prisma/client";
+
+const BATCH_SIZE = 500;
+
+type ShopExportRow = Omit<Shop, "apiKey"> & {
+  Plan: Plan | null;
+  stats: ShopStats;
+};
+
+// Exports the /shops table with the same query bar filters and sort order.
+export const loader: LoaderFunction = async ({ request }) => {
+  const user = await requireUser(request);
+  const canViewBilling = can(user.role, "billing:view");
+  const canViewPii = can(user.role, "shops:pii");
+
+  const url = new URL(request.url);
+  const filters = parseShopFilters(url.searchParams);
+  if (filters.sort === "revenue" && !canViewBilling) {
+    filters.sort = "created";
+  }
+  const where = buildShopWhere(filters, { canSearchPii: canViewPii });
+  const shopIds = await findSortedShopIds(where, filters, { skip: 0 });
+  await recordAudit(user, { action: "export.shops" });
+
+  async function* batches() {
+    for (let i = 0; i < shopIds.length; i += BATCH_SIZE) {
+      const ids = shopIds.slice(i, i + BATCH_SIZE);
+      const [shops, statsById] = await Promise.all([
+        prisma.shop.findMany({
+          where: { id: { in: ids } },
+          omit: { apiKey: true },
+          include: { Plan: true },
+        }),
+        getShopStats(ids, {
+          includeBilling: canViewBilling,
+          includeTestCharges: filters.includeTest,
+        }),
+      ]);
+      const shopById = new Map(shops.map((shop) => [shop.id, shop]));
+      yield ids.flatMap((id) => {
+        const shop = shopById.get(id);
+        return shop ? [{ ...shop, stats: statsById[id] }] : [];
+      });
+    }
+  }
+
+  const columns: ExportColumn<ShopExportRow>[] = [
+    { header: "id", value: (shop) => shop.id },
+    { header: "domain", value: (shop) => shop.domain },
+    { header: "shopifyId", value: (shop) => shop.shopifyId },
+    ...(canViewPii
+      ? [
+          { header: "email", value: (shop: ShopExportRow) => shop.email },
+          { header: "phone", value: (shop: ShopExportRow) => shop.phone },
+        ]
+      : []),
+    { header: "country", value: (shop) => shop.country },
+    {
+      header: "status",
+      value: (shop) => (shop.isUninstalled ? "uninstalled" : "active"),
+    },
+    { header: "plan", value: (shop) => shop.Plan?.name },
+    { header: "allowTestPayment", value: (shop) => shop.allowTestPayment },
+    { header: "generations", value: (shop) => shop.stats.generations },
+    { header: "lastActivityAt", value: (shop) => shop.stats.lastActivityAt },
+    ...(canViewBilling
+      ? [
+          {
+            header: "revenue",
+            value: (shop: ShopExportRow) => shop.stats.revenue?.toFixed(2),
+          },
+          {
+            header: "transactions",
+            value: (shop: ShopExportRow) => shop.stats.transactions,
+          },
+        ]
+      : []),
+    { header: "createdAt", value: (shop) => shop.createdAt },
+  ];
+
+  return streamExport({
+    filename: "shops",
+    format: parseExportFormat(url.searchParams),
+    columns,
+    batches: batches(),
+  });
+};
@@ -1,184 +1,205 @@
-import React from "react";
 import { json, type LoaderFunction } from "@remix-run/node";
-import { useLoaderData, useSearchParams } from "@remix-run/react";
+import { useLoaderData, useSearchParams, Link, Form } from "@remix-run/react";
 import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import {
+  getDateRangeFilter,
+  type DateRangeCondition,
+} from "~/utils/dateFilters.server";
+import { ExportLinks } from "~/components/ExportLinks";
+import { DateRangeFilter } from "~/components/DateRangeFilter";
+import { StatCard } from "~/components/StatCard";
+import { ConversionTable, formatRate } from "~/components/ConversionTable";
+import {
+  getCollapsingShops,
+  getConversionBy,
+  getConversionSummary,
+  getConversionTimeline,
+  type CollapsingShop,
+  type ConversionRow,
+} from "~/utils/conversion.server";
+import { getProductDetails } from "~/utils/products.server";
+import {
+  getCategoryOptions,
+  getCategoryTimeline,
+  missingCategoryWhere,
+  parseCategoryFilter,
+} from "~/utils/categories.server";
+import { UNCATEGORIZED, UNCATEGORIZED_LABEL } from "~/utils/categories";
+import { getShopperStats, getTopShoppers } from "~/utils/shoppers.server";
+import { can } from "~/utils/roles";
+import { ShopperAnalytics } from "~/components/ShopperAnalytics";
 import {
   LineChart,
   Line,
   XAxis,
   YAxis,
   Tooltip,
+  Legend,
   ResponsiveContainer,
   CartesianGrid,
 } from "recharts";
-import { useState } from "react";
-import { DateRange, Calendar } from "react-date-range";
-import { format, parseISO } from "date-fns";
-import "react-date-range/dist/styles.css";
-import "react-date-range/dist/theme/default.css";
+
+// Number of categories charted over time; the table lists the rest
+const CATEGORY_SERIES = 5;
+const SERIES_COLORS = ["#2563eb", "#16a34a", "#f59e0b", "#dc2626", "#9333ea"];
 
 export const loader: LoaderFunction = async ({ request }) => {
-  const url = new URL(request.url);
-  const dateFilter = url.searchParams.get("dateFilter") || "30days";
-  const customStart = url.searchParams.get("start");
-  const customEnd = url.searchParams.get("end");
+  const user = await requireUser(request);
 
-  // Date range logic
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const sevenDaysAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
-  const thirtyDaysAgo = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
+  const url = new URL(request.url);
+  const { dateFilter, customStart, customEnd, timezone, range, previous } =
+    getDateRangeFilter(url.searchParams);
+  const dateCondition = range ? { createdAt: range } : {};
+  const { category, where: categoryWhere } = parseCategoryFilter(
+    url.searchParams
+  );
+  // Every metric below honours the category filter
+  const where = { ...dateCondition, ...categoryWhere };
 
-  let dateCondition = {};
-  if (dateFilter === "custom" && customStart && customEnd) {
-    dateCondition = {
-      createdAt: {
-        gte: new Date(customStart),
-        lte: new Date(customEnd),
-      },
+  // Key stats, for the selected and previous period
+  const getKeyStats = async (statsRange: DateRangeCondition | undefined) => {
+    const statsWhere = {
+      ...(statsRange && { createdAt: statsRange }),
+      ...categoryWhere,
+    };
+    const [totalGenerations, uniqueShops, conversion, shoppers] =
+      await Promise.all([
+        prisma.generation.count({ where: statsWhere }),
+        prisma.generation.findMany({
+          where: statsWhere,
+          select: { shopId: true },
+          distinct: ["shopId"],
+        }),
+        getConversionSummary(statsWhere),
+        getShopperStats({ range: statsRange, category }),
+      ]);
+    return {
+      totalGenerations,
+      uniqueShops: uniqueShops.length,
+      avgPerShop: totalGenerations / (uniqueShops.length || 1),
+      conversion,
+      shoppers,
     };
-  } else {
-    switch (dateFilter) {
-      case "today":
-        dateCondition = { createdAt: { gte: today } };
-        break;
-      case "7days":
-        dateCondition = { createdAt: { gte: sevenDaysAgo } };
-        break;
-      case "30days":
-        dateCondition = { createdAt: { gte: thirtyDaysAgo } };
-        break;
-      default:
-        dateCondition = {};
-    }
-  }
+  };
+  const [keyStats, previousStats] = await Promise.all([
+    getKeyStats(range),
+    previous ? getKeyStats(previous) : null,
+  ]);
 
-  // Key stats
-  const totalGenerations = await prisma.generation.count({
-    where: dateCondition,
-  });
-  const uniqueShops = await prisma.generation.findMany({
-    where: dateCondition,
-    select: { shopId: true },
-    distinct: ["shopId"],
-  });
-  const avgPerShop = totalGenerations / (uniqueShops.length || 1);
+  // Daily generations and add-to-cart counts for the charts
+  const chartData = await getConversionTimeline({ range, category }, timezone);
 
-  // For chart: group by day
-  // (Replace with Prisma groupBy when available, here is a simple workaround)
-  const generations = await prisma.generation.findMany({
-    where: dateCondition,
-    select: { createdAt: true },
-    orderBy: { createdAt: "asc" },
-  });
-  // Group by day
-  const chartData: { date: string; count: number }[] = [];
-  generations.forEach((g) => {
-    const date = g.createdAt.toISOString().slice(0, 10);
-    const entry = chartData.find((d) => d.date === date);
-    if (entry) entry.count++;
-    else chartData.push({ date, count: 1 });
-  });
+  // Conversion (generations -> add to cart)
+  const [topShops, topProducts, categories, collapsingShops] =
+    await Promise.all([
+      getConversionBy("shopId", where),
+      getConversionBy("productId", where),
+      getConversionBy("productCategory", where),
+      getCollapsingShops({ where: categoryWhere }),
+    ]);
 
-  // Top shops by generations
-  const topShops = await prisma.generation.groupBy({
-    by: ["shopId"],
-    _count: { shopId: true },
-    where: dateCondition,
-    orderBy: { _count: { shopId: "desc" } },
-    take: 10,
-  });
+  // Category trends for the largest categories, plus how much is missing one
+  const [categoryTimeline, uncategorized, categoryOptions] = await Promise.all([
+    getCategoryTimeline(
+      { range, category },
+      categories
+        .slice(0, CATEGORY_SERIES)
+        .map((row) => row.key || UNCATEGORIZED_LABEL),
+      timezone
+    ),
+    prisma.generation.count({
+      where: { AND: [where, missingCategoryWhere] },
+    }),
+    getCategoryOptions(),
+  ]);
 
-  // Fetch shop domains for top shops
-  const shopIds = topShops.map((row) => row.shopId);
-  const shopRecords = await prisma.shop.findMany({
-    where: { id: { in: shopIds } },
-    select: { id: true, domain: true },
+  // Shoppers, with emails masked for roles that may not see contact details
+  const topShoppers = await getTopShoppers(where, {
+    revealEmails: can(user.role, "shoppers:pii"),
   });
+
+  // Fetch shop domains and product names for display
+  const shopIds = [
+    ...topShops.map((row) => row.key),
+    ...collapsingShops.map((row) => row.shopId),
+    ...topShoppers.map((row) => row.shopId),
+  ];
+  const [shopRecords, productRecords] = await Promise.all([
+    prisma.shop.findMany({
+      where: { id: { in: shopIds } },
+      select: { id: true, domain: true },
+    }),
+    getProductDetails(topProducts.map((row) => row.key)),
+  ]);
   const shopMap = Object.fromEntries(shopRecords.map((s) => [s.id, s.domain]));
+  const productMap = Object.fromEntries(
+    [...productRecords.values()].map((p) => [p.productId, p.productName])
+  );
 
   return json({
-    totalGenerations,
-    uniqueShops: uniqueShops.length,
-    avgPerShop,
+    keyStats,
+    previousStats,
     chartData,
     topShops,
+    topProducts,
+    categories,
+    categoryTimeline,
+    uncategorized,
+    category,
+    categoryOptions: [
+      ...categoryOptions.map((name) => ({ value: name, label: name })),
+      { value: UNCATEGORIZED, label: UNCATEGORIZED_LABEL },
+    ],
+    collapsingShops,
+    topShoppers,
     shopMap,
+    productMap,
     dateFilter,
     customStart,
     customEnd,
+    timezone,
   });
 };
 
 export default function GenerationsStatsPage() {
   const {
-    totalGenerations,
-    uniqueShops,
-    avgPerShop,
+    keyStats,
+    previousStats,
     chartData,
     topShops,
+    topProducts,
+    categories,
+    categoryTimeline,
+    uncategorized,
+    category,
+    categoryOptions,
+    collapsingShops,
+    topShoppers,
     shopMap,
+    productMap,
     dateFilter,
     customStart,
     customEnd,
+    timezone,
   } = useLoaderData<typeof loader>();
-  const [searchParams, setSearchParams] = useSearchParams();
-  const [calendarOpen, setCalendarOpen] = useState<null | "start" | "end">(
-    null
-  );
-  const [pendingStart, setPendingStart] = useState<string | null>(
-    customStart || null
-  );
-  const [pendingEnd, setPendingEnd] = useState<string | null>(
-    customEnd || null
-  );
 
-  // Date filter handler
-  const handleDateFilter = (filter: string) => {
-    const params = new URLSearchParams(searchParams);
-    params.set("dateFilter", filter);
-    if (filter !== "custom") {
-      params.delete("start");
-      params.delete("end");
-    }
-    setSearchParams(params);
-    setCalendarOpen(null);
+  const shopLink = (shopId: string) => {
+    const domain = shopMap[shopId];
+    return domain ? (
+      <a
+        href={`https://${domain}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-blue-600 hover:underline"
+      >
+        {domain}
+      </a>
+    ) : (
+      shopId
+    );
   };
-
-  // Handle calendar date selection
-  const handleCalendarSelect = (date: Date) => {
-    const formatted = format(date, "yyyy-MM-dd");
-    if (calendarOpen === "start") {
-      setPendingStart(formatted);
-      setCalendarOpen(null);
-    } else if (calendarOpen === "end") {
-      setPendingEnd(formatted);
-      setCalendarOpen(null);
-    }
-  };
-
-  // Apply range when both dates are set
-  React.useEffect(() => {
-    if (dateFilter === "custom" && pendingStart && pendingEnd) {
-      const params = new URLSearchParams(searchParams);
-      params.set("dateFilter", "custom");
-      params.set("start", pendingStart);
-      params.set("end", pendingEnd);
-      setSearchParams(params);
-    }
-    // eslint-disable-next-line
-  }, [pendingStart, pendingEnd]);
-
-  // Calendar value
-  const calendarValue =
-    calendarOpen === "start"
-      ? pendingStart
-        ? parseISO(pendingStart)
-        : new Date()
-      : pendingEnd
-      ? parseISO(pendingEnd)
-      : new Date();
-
+  const [searchParams] = useSearchParams();
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
       <div className="max-w-4xl mx-auto">
@@ -189,94 +210,69 @@ export default function GenerationsStatsPage() {
           Detailed statistics and trends for generations.
         </p>
 
-        {/* Date Filters */}
-        <div className="flex gap-2 mb-6">
-          {[
-            { value: "today", label: "Today" },
-            { value: "7days", label: "Last 7 Days" },
-            { value: "30days", label: "Last 30 Days" },
-            { value: "all", label: "All Time" },
-            { value: "custom", label: "Custom Range" },
-          ].map((opt) => (
-            <button
-              key={opt.value}
-              onClick={() => handleDateFilter(opt.value)}
-              className={`px-3 py-1 rounded text-sm font-medium border transition-colors ${
-                dateFilter === opt.value
-                  ? "bg-blue-600 text-white"
-                  : "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
-              }`}
-            >
-              {opt.label}
-            </button>
-          ))}
-        </div>
-        {/* Custom Range Start/End Buttons */}
-        {dateFilter === "custom" && (
-          <div className="mb-6 flex items-center gap-2">
-            <button
-              className="text-sm px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
-              onClick={() => setCalendarOpen("start")}
-            >
-              Start: {pendingStart || "Select"}
-            </button>
-            <span className="text-gray-500">to</span>
-            <button
-              className="text-sm px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
-              onClick={() => setCalendarOpen("end")}
+        <DateRangeFilter
+          dateFilter={dateFilter}
+          customStart={customStart}
+          customEnd={customEnd}
+          timezone={timezone}
+        >
+          <Form method="get" className="flex items-center gap-2">
+            <input type="hidden" name="dateFilter" value={dateFilter} />
+            {customStart && (
+              <input type="hidden" name="start" value={customStart} />
+            )}
+            {customEnd && <input type="hidden" name="end" value={customEnd} />}
+            <input type="hidden" name="tz" value={timezone} />
+            <select
+              name="category"
+              defaultValue={category}
+              onChange={(e) => e.currentTarget.form?.requestSubmit()}
+              className="rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-1 text-sm"
             >
-              End: {pendingEnd || "Select"}
-            </button>
-          </div>
-        )}
-        {/* Calendar Modal Popup for Start/End */}
-        {calendarOpen && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
-            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 relative">
-              <button
-                className="absolute top-2 right-2 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 text-xl"
-                onClick={() => setCalendarOpen(null)}
-                aria-label="Close"
-              >
-                ×
-              </button>
-              <Calendar
-                date={calendarValue}
-                onChange={handleCalendarSelect}
-                maxDate={new Date()}
-                showMonthAndYearPickers={true}
-                color="#2563eb"
-              />
-            </div>
-          </div>
-        )}
+              <option value="">All categories</option>
+              {categoryOptions.map(
+                (option: { value: string; label: string }) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                )
+              )}
+            </select>
+          </Form>
+          <ExportLinks href="/export/generations" params={searchParams} />
+        </DateRangeFilter>
 
         {/* Key Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
-          <div className="bg-white dark:bg-gray-800 rounded shadow p-4">
-            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
-              Total Generations
-            </div>
-            <div className="text-2xl font-bold text-gray-900 dark:text-white">
-              {totalGenerations}
-            </div>
-          </div>
-          <div className="bg-white dark:bg-gray-800 rounded shadow p-4">
-            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
-              Unique Shops
-            </div>
-            <div className="text-2xl font-bold text-gray-900 dark:text-white">
-              {uniqueShops}
-            </div>
-          </div>
-          <div className="bg-white dark:bg-gray-800 rounded shadow p-4">
-            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
-              Avg. per Shop
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+          <StatCard
+            label="Total Generations"
+            value={keyStats.totalGenerations}
+            current={keyStats.totalGenerations}
+            previous={previousStats?.totalGenerations}
+          />
+          <StatCard
+            label="Unique Shops"
+            value={keyStats.uniqueShops}
+            current={keyStats.uniqueShops}
+            previous={previousStats?.uniqueShops}
+          />
+          <StatCard
+            label="Avg. per Shop"
+            value={keyStats.avgPerShop.toFixed(2)}
+            current={keyStats.avgPerShop}
+            previous={previousStats?.avgPerShop}
+          />
+          <StatCard
+            label="Add-to-Cart Rate"
+            value={formatRate(keyStats.conversion.rate)}
+            current={keyStats.conversion.rate}
+            previous={previousStats?.conversion.rate}
+          >
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {keyStats.conversion.addedToCart} of{" "}
+              {keyStats.conversion.generations} generations
             </div>
-            <div className="text-2xl font-bold text-gray-900 dark:text-white">
-              {avgPerShop.toFixed(2)}
-            </div>
-          </div>
+          </StatCard>
         </div>
 
         {/* Chart */}
@@ -296,7 +292,7 @@ export default function GenerationsStatsPage() {
                 <Tooltip />
                 <Line
                   type="monotone"
-                  dataKey="count"
+                  dataKey="generations"
                   stroke="#2563eb"
                   strokeWidth={2}
                   dot={false}
@@ -306,43 +302,208 @@ export default function GenerationsStatsPage() {
           </div>
         </div>
 
-        {/* Top Shops Table */}
-        <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+        {/* Conversion Chart */}
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 mb-8">
           <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
-            Top Shops by Generations
+            Add-to-Cart Rate Over Time
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={chartData}
+                margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={(value: number) => formatRate(value)}
+                />
+                <Tooltip formatter={(value: number) => formatRate(value)} />
+                <Line
+                  type="monotone"
+                  dataKey="rate"
+                  name="Conversion"
+                  stroke="#16a34a"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
           </div>
-          <table className="min-w-full text-sm">
-            <thead>
-              <tr>
-                <th className="text-left py-2 px-3">Shop</th>
-                <th className="text-left py-2 px-3">Generations</th>
-              </tr>
-            </thead>
-            <tbody>
-              {topShops.map((row: any) => {
-                const domain = shopMap[row.shopId];
-                return (
+        </div>
+
+        {/* Collapsing Conversion */}
+        {collapsingShops.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded shadow p-6 mb-8 border border-red-200 dark:border-red-800">
+            <div className="text-lg font-semibold mb-1 text-gray-900 dark:text-white">
+              Shops With Collapsing Conversion
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+              Add-to-cart rate over the last 7 days is at least 50% below the 28
+              days before.
+            </p>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left py-2 px-3">Shop</th>
+                  <th className="text-right py-2 px-3">Last 7 Days</th>
+                  <th className="text-right py-2 px-3">Previous 28 Days</th>
+                  <th className="text-right py-2 px-3">Generations (7d)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {collapsingShops.map((row: CollapsingShop) => (
                   <tr key={row.shopId}>
                     <td className="py-2 px-3">
-                      {domain ? (
-                        <a
-                          href={`https://${domain}`}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-blue-600 hover:underline"
-                        >
-                          {domain}
-                        </a>
-                      ) : (
-                        row.shopId
-                      )}
+                      <Link
+                        to={`/shop/${row.shopId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {shopMap[row.shopId] ?? row.shopId}
+                      </Link>
+                    </td>
+                    <td className="py-2 px-3 text-right text-red-600 dark:text-red-400">
+                      {formatRate(row.recentRate)}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {formatRate(row.baselineRate)}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {row.recentGenerations}
                     </td>
-                    <td className="py-2 px-3">{row._count.shopId}</td>
                   </tr>
-                );
-              })}
-            </tbody>
-          </table>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Category Trends */}
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 mb-8">
+          <div className="flex items-start justify-between mb-2">
+            <div className="text-lg font-semibold text-gray-900 dark:text-white">
+              Categories Over Time
+            </div>
+            {!category && uncategorized > 0 && (
+              <Link
+                to={`?${new URLSearchParams({
+                  ...Object.fromEntries(searchParams),
+                  category: UNCATEGORIZED,
+                })}`}
+                className="text-xs font-semibold rounded-full px-3 py-1 bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200 hover:underline"
+              >
+                {uncategorized} generations without a category (
+                {formatRate(uncategorized / (keyStats.totalGenerations || 1))})
+              </Link>
+            )}
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {[
+              {
+                title: "Generations",
+                data: categoryTimeline.generations,
+                percent: false,
+              },
+              {
+                title: "Add-to-Cart Rate",
+                data: categoryTimeline.rates,
+                percent: true,
+              },
+            ].map((chart) => (
+              <div key={chart.title}>
+                <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+                  {chart.title}
+                </div>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart
+                      data={chart.data}
+                      margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                      <YAxis
+                        allowDecimals={chart.percent}
+                        tick={{ fontSize: 12 }}
+                        tickFormatter={
+                          chart.percent
+                            ? (value: number) => formatRate(value)
+                            : undefined
+                        }
+                      />
+                      <Tooltip
+                        formatter={
+                          chart.percent
+                            ? (value: number) => formatRate(value)
+                            : undefined
+                        }
+                      />
+                      <Legend />
+                      {categoryTimeline.categories.map(
+                        (name: string, index: number) => (
+                          <Line
+                            key={name}
+                            type="monotone"
+                            dataKey={name}
+                            stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                            strokeDasharray={
+                              name === UNCATEGORIZED_LABEL ? "4 4" : undefined
+                            }
+                            strokeWidth={2}
+                            dot={false}
+                            connectNulls
+                          />
+                        )
+                      )}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <ShopperAnalytics
+          stats={keyStats.shoppers}
+          previousStats={previousStats?.shoppers}
+          topShoppers={topShoppers}
+          shopMap={shopMap}
+        />
+
+        {/* Conversion Breakdowns */}
+        <div className="grid grid-cols-1 gap-4">
+          <ConversionTable
+            title="Top Shops by Generations"
+            labelHeader="Shop"
+            rows={topShops.map((row: ConversionRow) => ({
+              ...row,
+              label: shopLink(row.key),
+            }))}
+          />
+          <ConversionTable
+            title="Top Products"
+            labelHeader="Product"
+            rows={topProducts.map((row: ConversionRow) => ({
+              ...row,
+              label: (
+                <Link
+                  to={`/products/${encodeURIComponent(row.key)}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  {productMap[row.key] || row.key}
+                </Link>
+              ),
+            }))}
+          />
+          <ConversionTable
+            title="Categories"
+            labelHeader="Category"
+            rows={categories.map((row: ConversionRow) => ({
+              ...row,
+              label: row.key || UNCATEGORIZED_LABEL,
+            }))}
+          />
         </div>
       </div>
     </div>
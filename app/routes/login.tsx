@@ -0,0 +1,206 @@
+import {
+  json,
+  redirect,
+  type ActionFunction,
+  type LoaderFunction,
+  type MetaFunction,
+} from "@remix-run/node";
+import {
+  Form,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useSearchParams,
+} from "@remix-run/react";
+import { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import {
+  createUserSession,
+  getUser,
+  hashPassword,
+  isSetupEnabled,
+  isValidSetupToken,
+  safeRedirect,
+  verifyLogin,
+} from "~/utils/auth.server";
+import { recordAudit } from "~/utils/audit.server";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Sign In" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  const url = new URL(request.url);
+  if (await getUser(request)) {
+    throw redirect(safeRedirect(url.searchParams.get("redirectTo")));
+  }
+
+  // With an empty user store, whoever holds ADMIN_SETUP_TOKEN sets up the
+  // admin account.
+  const needsSetup = (await prisma.adminUser.count()) === 0;
+  return json({ needsSetup, setupEnabled: isSetupEnabled() });
+};
+
+export const action: ActionFunction = async ({ request }) => {
+  const formData = await request.formData();
+  const email = String(formData.get("email") || "")
+    .trim()
+    .toLowerCase();
+  const password = String(formData.get("password") || "");
+  const redirectTo = safeRedirect(formData.get("redirectTo"));
+
+  if (!email || !password) {
+    return json({ error: "Email and password are required" }, { status: 400 });
+  }
+
+  if ((await prisma.adminUser.count()) === 0) {
+    if (!isValidSetupToken(String(formData.get("setupToken") || ""))) {
+      return json({ error: "Invalid setup token" }, { status: 403 });
+    }
+    if (password.length < 12) {
+      return json(
+        { error: "Password must be at least 12 characters" },
+        { status: 400 }
+      );
+    }
+    const passwordHash = await hashPassword(password);
+    // Serializable, so two setups racing each other can't both succeed
+    let user;
+    try {
+      user = await prisma.$transaction(
+        async (tx) => {
+          if ((await tx.adminUser.count()) > 0) return null;
+          return tx.adminUser.create({
+            data: {
+              email,
+              name: String(formData.get("name") || ""),
+              passwordHash,
+              role: "ADMIN",
+              lastLoginAt: new Date(),
+            },
+          });
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        !["P2002", "P2034"].includes(error.code)
+      ) {
+        throw error;
+      }
+      user = null;
+    }
+    if (!user) {
+      return json(
+        { error: "The admin account already exists. Sign in instead." },
+        { status: 409 }
+      );
+    }
+    await recordAudit(user, {
+      action: "user.create-first-admin",
+      targetType: "AdminUser",
+      targetId: user.id,
+      after: { email, role: user.role },
+    });
+    return createUserSession(user.id, redirectTo);
+  }
+
+  const result = await verifyLogin(email, password);
+  if ("error" in result) {
+    return json({ error: result.error }, { status: 401 });
+  }
+  return createUserSession(result.user.id, redirectTo);
+};
+
+export default function LoginPage() {
+  const { needsSetup, setupEnabled } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [searchParams] = useSearchParams();
+  const redirectTo = searchParams.get("redirectTo") || "/";
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-6">
+      <div className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
+          {needsSetup ? "Create Admin Account" : "Sign In"}
+        </h1>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-6">
+          {!needsSetup
+            ? "Sign in to the Fitsee dashboard."
+            : setupEnabled
+            ? "No dashboard users exist yet. This account will be the first admin."
+            : "No dashboard users exist yet. Set ADMIN_SETUP_TOKEN on the server to create the first admin."}
+        </p>
+        {(!needsSetup || setupEnabled) && (
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="redirectTo" value={redirectTo} />
+            {needsSetup && (
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Setup Token
+                </span>
+                <input
+                  type="password"
+                  name="setupToken"
+                  required
+                  autoComplete="off"
+                  className="mt-1 w-full rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm"
+                />
+              </label>
+            )}
+            {needsSetup && (
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Name
+                </span>
+                <input
+                  type="text"
+                  name="name"
+                  className="mt-1 w-full rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm"
+                />
+              </label>
+            )}
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Email
+              </span>
+              <input
+                type="email"
+                name="email"
+                autoComplete="email"
+                required
+                className="mt-1 w-full rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Password
+              </span>
+              <input
+                type="password"
+                name="password"
+                autoComplete={needsSetup ? "new-password" : "current-password"}
+                required
+                className="mt-1 w-full rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm"
+              />
+            </label>
+            {actionData?.error && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {actionData.error}
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={navigation.state !== "idle"}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-50"
+            >
+              {needsSetup ? "Create Account" : "Sign In"}
+            </button>
+          </Form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+import {
+  json,
+  type ActionFunction,
+  type LoaderFunction,
+  type MetaFunction,
+} from "@remix-run/node";
+import {
+  useActionData,
+  useLoaderData,
+  Link,
+  Form,
+  useSearchParams,
+} from "@remix-run/react";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { recordAudit, recordView } from "~/utils/audit.server";
+import { redactLog } from "~/utils/redaction.server";
+import { can } from "~/utils/roles";
+import {
+  buildLogWhere,
+  LOG_METHODS,
+  parseLogFilters,
+} from "~/utils/logFilters.server";
+import { timezoneOptions } from "~/utils/dateRanges";
+import { JsonViewer } from "~/components/JsonViewer";
+import { MethodBadge, StatusBadge } from "~/components/LogBadges";
+import { RevealForm } from "~/components/RevealForm";
+
+const PAGE_SIZE = 50;
+
+const inputClassName =
+  "mt-1 w-full rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm";
+
+type LogRow = {
+  id: string;
+  endpoint: string;
+  method: string;
+  status: number;
+  shopId: string | null;
+  createdAt: string;
+  Shop: { domain: string } | null;
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - API Logs" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  const user = await requireUser(request, "logs:view");
+
+  const url = new URL(request.url);
+  const filters = parseLogFilters(url.searchParams);
+  const where = buildLogWhere(filters);
+  const cursor = url.searchParams.get("cursor");
+  const selectedId = url.searchParams.get("selected");
+
+  const [rows, selected] = await Promise.all([
+    // One extra row tells us whether there is a next page. Bodies, headers
+    // and responses can be large, so the list leaves them out.
+    prisma.log.findMany({
+      where,
+      select: {
+        id: true,
+        endpoint: true,
+        method: true,
+        status: true,
+        shopId: true,
+        createdAt: true,
+        Shop: { select: { domain: true } },
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: PAGE_SIZE + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    }),
+    selectedId
+      ? prisma.log.findUnique({
+          where: { id: selectedId },
+          include: { Shop: { select: { domain: true } } },
+        })
+      : null,
+  ]);
+
+  if (selected) {
+    await recordView(user, {
+      action: "log.view",
+      shopId: selected.shopId,
+      targetType: "Log",
+      targetId: selected.id,
+    });
+  }
+
+  const hasMore = rows.length > PAGE_SIZE;
+  const logs = rows.slice(0, PAGE_SIZE);
+
+  return json({
+    logs,
+    nextCursor: hasMore ? logs[logs.length - 1].id : null,
+    selected: selected && redactLog(selected),
+    filters,
+    methods: LOG_METHODS,
+    canRevealSecrets: can(user.role, "secrets:view"),
+  });
+};
+
+export const action: ActionFunction = async ({ request }) => {
+  const user = await requireUser(request, "secrets:view");
+  const formData = await request.formData();
+  const logId = String(formData.get("logId") || "");
+  const reason = String(formData.get("reason") || "").trim();
+
+  if (formData.get("intent") !== "reveal" || !logId) {
+    return json({ error: "Unknown action" }, { status: 400 });
+  }
+  if (!reason) {
+    return json({ error: "A reason is required" }, { status: 400 });
+  }
+
+  const log = await prisma.log.findUnique({
+    where: { id: logId },
+    select: {
+      id: true,
+      shopId: true,
+      body: true,
+      headers: true,
+      response: true,
+    },
+  });
+  if (!log) {
+    throw new Response("Log not found", { status: 404 });
+  }
+
+  await recordAudit(user, {
+    action: "secret.reveal",
+    shopId: log.shopId,
+    targetType: "Log",
+    targetId: log.id,
+    reason,
+  });
+
+  return json({ revealed: log });
+};
+
+export default function LogsPage() {
+  const { logs, nextCursor, selected, filters, methods, canRevealSecrets } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  // Only show the unredacted copy for the log it was requested for
+  const revealed =
+    actionData?.revealed?.id === selected?.id ? actionData?.revealed : null;
+  const [searchParams] = useSearchParams();
+
+  const withParams = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null) params.delete(key);
+      else params.set(key, value);
+    });
+    return `?${params}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-7xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          API Logs
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          Every logged API request, newest first.
+        </p>
+
+        {/* Filters */}
+        <Form
+          method="get"
+          className="bg-white dark:bg-gray-800 rounded shadow p-4 mb-6 grid grid-cols-1 md:grid-cols-8 gap-3 items-end"
+        >
+          <label className="text-xs text-gray-500 dark:text-gray-400 md:col-span-2">
+            Endpoint
+            <input
+              name="endpoint"
+              defaultValue={filters.endpoint}
+              placeholder="/api/generate"
+              className={inputClassName}
+            />
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Method
+            <select
+              name="method"
+              defaultValue={filters.method}
+              className={inputClassName}
+            >
+              <option value="">All</option>
+              {methods.map((method: string) => (
+                <option key={method} value={method}>
+                  {method}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Status
+            <select
+              name="status"
+              defaultValue={filters.statusClass}
+              className={inputClassName}
+            >
+              <option value="all">All</option>
+              <option value="2xx">2xx</option>
+              <option value="3xx">3xx</option>
+              <option value="4xx">4xx</option>
+              <option value="5xx">5xx</option>
+            </select>
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Shop
+            <input
+              name="shop"
+              defaultValue={filters.shop}
+              placeholder="ID or domain"
+              className={inputClassName}
+            />
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            From
+            <input
+              type="datetime-local"
+              name="from"
+              defaultValue={filters.from}
+              className={inputClassName}
+            />
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            To
+            <input
+              type="datetime-local"
+              name="to"
+              defaultValue={filters.to}
+              className={inputClassName}
+            />
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Timezone
+            <select
+              name="tz"
+              defaultValue={filters.timezone}
+              className={inputClassName}
+            >
+              {timezoneOptions(filters.timezone).map((option: string) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="md:col-span-8 flex gap-3">
+            <button
+              type="submit"
+              className="px-4 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+            >
+              Apply
+            </button>
+            <Link
+              to="/logs"
+              className="px-4 py-2 rounded border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-200"
+            >
+              Reset
+            </Link>
+          </div>
+        </Form>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Log List */}
+          <div className="bg-white dark:bg-gray-800 rounded shadow overflow-x-auto">
+            {logs.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+                No logs match these filters
+              </p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="text-left py-2 px-3">Endpoint</th>
+                    <th className="text-left py-2 px-3">Method</th>
+                    <th className="text-left py-2 px-3">Status</th>
+                    <th className="text-left py-2 px-3">Shop</th>
+                    <th className="text-right py-2 px-3">Time</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {logs.map((log: LogRow) => (
+                    <tr
+                      key={log.id}
+                      className={
+                        selected?.id === log.id
+                          ? "bg-blue-50 dark:bg-gray-700"
+                          : "hover:bg-gray-50 dark:hover:bg-gray-700"
+                      }
+                    >
+                      <td className="py-2 px-3">
+                        <Link
+                          to={withParams({ selected: log.id })}
+                          preventScrollReset
+                          className="block max-w-xs truncate text-blue-600 hover:underline"
+                        >
+                          {log.endpoint}
+                        </Link>
+                      </td>
+                      <td className="py-2 px-3">
+                        <MethodBadge method={log.method} />
+                      </td>
+                      <td className="py-2 px-3">
+                        <StatusBadge status={log.status} />
+                      </td>
+                      <td className="py-2 px-3 truncate max-w-[10rem]">
+                        {log.Shop?.domain ?? "—"}
+                      </td>
+                      <td className="py-2 px-3 text-right whitespace-nowrap text-gray-500 dark:text-gray-400">
+                        {new Date(log.createdAt).toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <div className="flex justify-between p-4 text-sm">
+              {searchParams.get("cursor") ? (
+                <Link
+                  to={withParams({ cursor: null, selected: null })}
+                  className="text-blue-600 hover:underline"
+                >
+                  ← Newest
+                </Link>
+              ) : (
+                <span />
+              )}
+              {nextCursor && (
+                <Link
+                  to={withParams({ cursor: nextCursor, selected: null })}
+                  className="text-blue-600 hover:underline"
+                >
+                  Older →
+                </Link>
+              )}
+            </div>
+          </div>
+
+          {/* Detail Panel */}
+          <div className="bg-white dark:bg-gray-800 rounded shadow p-6 self-start lg:sticky lg:top-6">
+            {selected ? (
+              <>
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <div className="flex items-center gap-2 mb-1">
+                      <MethodBadge method={selected.method} />
+                      <StatusBadge status={selected.status} />
+                    </div>
+                    <div className="font-mono text-sm text-gray-900 dark:text-white break-all">
+                      {selected.endpoint}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(selected.createdAt).toLocaleString()}
+                      {selected.Shop && (
+                        <>
+                          {" · "}
+                          <Link
+                            to={`/shop/${selected.shopId}`}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {selected.Shop.domain}
+                          </Link>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                  <Link
+                    to={withParams({ selected: null })}
+                    preventScrollReset
+                    className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400"
+                  >
+                    Close
+                  </Link>
+                </div>
+                {canRevealSecrets &&
+                  (revealed ? (
+                    <p className="mb-4 text-xs font-semibold text-red-600">
+                      Showing unredacted values. This view was audited.
+                    </p>
+                  ) : (
+                    <div className="mb-4">
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Secrets are redacted.
+                      </p>
+                      <RevealForm
+                        fields={{ logId: selected.id }}
+                        error={actionData?.error}
+                      />
+                    </div>
+                  ))}
+                {[
+                  {
+                    title: "Request Body",
+                    value: (revealed ?? selected).body,
+                  },
+                  { title: "Headers", value: (revealed ?? selected).headers },
+                  {
+                    title: "Response",
+                    value: (revealed ?? selected).response,
+                  },
+                ].map((section) => (
+                  <div key={section.title} className="mb-4">
+                    <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200 mb-1">
+                      {section.title}
+                    </h3>
+                    <div className="rounded bg-gray-50 dark:bg-gray-900 p-3">
+                      <JsonViewer value={section.value} />
+                    </div>
+                  </div>
+                ))}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Select a log to inspect its request and response.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { requireUser } from "~/utils/auth.server";
+import { can } from "~/utils/roles";
+import { parseIncludeTestCharges } from "~/utils/revenue.server";
+import {
+  getPlanGroups,
+  getShopsWithoutPlan,
+  type PlanGroup,
+} from "~/utils/plans.server";
+import { StatCard } from "~/components/StatCard";
+import { TestChargesToggle } from "~/components/TestChargesToggle";
+import { formatRate } from "~/components/ConversionTable";
+
+type ShopWithoutPlanRow = {
+  id: string;
+  domain: string;
+  createdAt: string;
+  isUninstalled: boolean;
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Plans" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  const user = await requireUser(request);
+
+  const url = new URL(request.url);
+  const canViewBilling = can(user.role, "billing:view");
+
+  const [groups, withoutPlan] = await Promise.all([
+    getPlanGroups({
+      includeBilling: canViewBilling,
+      includeTestCharges: parseIncludeTestCharges(url.searchParams),
+    }),
+    getShopsWithoutPlan(),
+  ]);
+
+  return json({ groups, withoutPlan, canViewBilling });
+};
+
+export default function PlansPage() {
+  const { groups, withoutPlan, canViewBilling } =
+    useLoaderData<typeof loader>();
+
+  const shopsOnPlans = groups.reduce(
+    (sum: number, group: PlanGroup) => sum + group.shops,
+    0
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-7xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          Plans
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          How shops are distributed across plans, and how much of their
+          allowance they use.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+          <StatCard label="Plans" value={groups.length} />
+          <StatCard label="Shops on a Plan" value={shopsOnPlans} />
+          <StatCard label="Shops Without a Plan" value={withoutPlan.total} />
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 mb-8 overflow-x-auto">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-lg font-semibold text-gray-900 dark:text-white">
+              By Plan
+            </div>
+            {canViewBilling && <TestChargesToggle />}
+          </div>
+          {groups.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No shops have a plan yet
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left py-2 px-3">Plan</th>
+                  <th className="text-right py-2 px-3">Shops</th>
+                  <th className="text-right py-2 px-3">Installed</th>
+                  <th className="text-right py-2 px-3">Active / Inactive</th>
+                  <th className="text-right py-2 px-3">Unlimited / Metered</th>
+                  <th className="text-right py-2 px-3">Avg. Utilization</th>
+                  {canViewBilling && (
+                    <>
+                      <th className="text-right py-2 px-3">Net Revenue</th>
+                      <th className="text-right py-2 px-3">Per Shop</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {groups.map((group: PlanGroup) => (
+                  <tr key={group.name}>
+                    <td className="py-2 px-3">
+                      <Link
+                        to={`/shops?plan=${encodeURIComponent(group.name)}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {group.name}
+                      </Link>
+                    </td>
+                    <td className="py-2 px-3 text-right">{group.shops}</td>
+                    <td className="py-2 px-3 text-right">{group.installed}</td>
+                    <td className="py-2 px-3 text-right">
+                      {group.active} / {group.inactive}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {group.unlimited} / {group.metered}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {group.averageUtilization === null
+                        ? "—"
+                        : formatRate(group.averageUtilization)}
+                    </td>
+                    {canViewBilling && (
+                      <>
+                        <td className="py-2 px-3 text-right">
+                          ${(group.revenue ?? 0).toFixed(2)}
+                        </td>
+                        <td className="py-2 px-3 text-right">
+                          ${((group.revenue ?? 0) / group.shops).toFixed(2)}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            Utilization is generations used out of used plus available, averaged
+            over metered plans.
+            {canViewBilling &&
+              " Revenue is the lifetime net revenue billed under each plan, whichever shops were on it."}
+          </p>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 overflow-x-auto">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-lg font-semibold text-gray-900 dark:text-white">
+              Shops Without a Plan ({withoutPlan.total})
+            </div>
+            <Link
+              to="/shops?plan=none"
+              className="text-sm text-blue-600 hover:underline"
+            >
+              View all in Shops
+            </Link>
+          </div>
+          {withoutPlan.shops.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Every shop has a plan
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left py-2 px-3">Shop</th>
+                  <th className="text-left py-2 px-3">Installed</th>
+                  <th className="text-left py-2 px-3">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {withoutPlan.shops.map((shop: ShopWithoutPlanRow) => (
+                  <tr key={shop.id}>
+                    <td className="py-2 px-3">
+                      <Link
+                        to={`/shop/${shop.id}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {shop.domain}
+                      </Link>
+                    </td>
+                    <td className="py-2 px-3 text-gray-500 dark:text-gray-400">
+                      {new Date(shop.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="py-2 px-3">
+                      {shop.isUninstalled ? "Uninstalled" : "Installed"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
+import { useLoaderData, Link } from "@remix-run/react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { getDateRangeFilter } from "~/utils/dateFilters.server";
+import {
+  getConversionBy,
+  getConversionSummary,
+  getConversionTimeline,
+  type ConversionRow,
+} from "~/utils/conversion.server";
+import {
+  countUniqueShoppers,
+  getProductDetails,
+} from "~/utils/products.server";
+import { DateRangeFilter } from "~/components/DateRangeFilter";
+import { StatCard } from "~/components/StatCard";
+import { ConversionTable, formatRate } from "~/components/ConversionTable";
+import { UNCATEGORIZED_LABEL } from "~/utils/categories";
+import { ProductThumbnail } from "~/components/ProductThumbnail";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [
+    {
+      title: `Fitsee Dashboard - ${data?.product.productName || "Product"}`,
+    },
+  ];
+};
+
+export const loader: LoaderFunction = async ({ request, params }) => {
+  await requireUser(request);
+
+  const { productId } = params;
+  if (!productId) {
+    throw new Response("Product ID is required", { status: 400 });
+  }
+
+  const product = (await getProductDetails([productId])).get(productId);
+  if (!product) {
+    throw new Response("Product not found", { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const { dateFilter, customStart, customEnd, timezone, range, previous } =
+    getDateRangeFilter(url.searchParams);
+  const where = { productId, ...(range && { createdAt: range }) };
+  const previousWhere = previous && { productId, createdAt: previous };
+
+  const [conversion, shoppers, timeline, byShop, recentGenerations] =
+    await Promise.all([
+      getConversionSummary(where),
+      countUniqueShoppers([productId], where),
+      getConversionTimeline({ range, productId }, timezone),
+      getConversionBy("shopId", where),
+      prisma.generation.findMany({
+        where,
+        select: {
+          id: true,
+          shopId: true,
+          addedToCart: true,
+          createdAt: true,
+          Shop: { select: { domain: true } },
+        },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      }),
+    ]);
+
+  const [previousConversion, previousShoppers] = previousWhere
+    ? await Promise.all([
+        getConversionSummary(previousWhere),
+        countUniqueShoppers([productId], previousWhere),
+      ])
+    : [null, null];
+
+  const shops = await prisma.shop.findMany({
+    where: { id: { in: byShop.map((row) => row.key) } },
+    select: { id: true, domain: true },
+  });
+  const shopMap = Object.fromEntries(shops.map((s) => [s.id, s.domain]));
+
+  return json({
+    product,
+    conversion,
+    uniqueShoppers: shoppers.get(productId) ?? 0,
+    previousConversion,
+    previousUniqueShoppers: previousShoppers
+      ? previousShoppers.get(productId) ?? 0
+      : null,
+    timeline,
+    byShop,
+    shopMap,
+    recentGenerations,
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+  });
+};
+
+type RecentGeneration = {
+  id: string;
+  shopId: string;
+  addedToCart: boolean;
+  createdAt: string;
+  Shop: { domain: string };
+};
+
+export default function ProductDetailsPage() {
+  const {
+    product,
+    conversion,
+    uniqueShoppers,
+    previousConversion,
+    previousUniqueShoppers,
+    timeline,
+    byShop,
+    shopMap,
+    recentGenerations,
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+  } = useLoaderData<typeof loader>();
+
+  const statCards = [
+    {
+      label: "Generations",
+      value: conversion.generations,
+      current: conversion.generations,
+      previous: previousConversion?.generations,
+    },
+    {
+      label: "Unique Shoppers",
+      value: uniqueShoppers,
+      current: uniqueShoppers,
+      previous: previousUniqueShoppers,
+    },
+    {
+      label: "Added to Cart",
+      value: conversion.addedToCart,
+      current: conversion.addedToCart,
+      previous: previousConversion?.addedToCart,
+    },
+    {
+      label: "Add-to-Cart Rate",
+      value: formatRate(conversion.rate),
+      current: conversion.rate,
+      previous: previousConversion?.rate,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-5xl mx-auto">
+        <Link
+          to="/products"
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 mb-2 inline-block"
+        >
+          ← Back to Products
+        </Link>
+        <div className="flex items-center gap-4 mb-6">
+          <ProductThumbnail
+            src={product.productImage}
+            alt={product.productName}
+            size="lg"
+          />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              {product.productName || "Unnamed Product"}
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {product.productCategory || UNCATEGORIZED_LABEL}
+              {product.productHandle && ` · ${product.productHandle}`}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              ID: {product.productId}
+            </p>
+          </div>
+        </div>
+
+        <DateRangeFilter
+          dateFilter={dateFilter}
+          customStart={customStart}
+          customEnd={customEnd}
+          timezone={timezone}
+        />
+
+        {/* Key Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          {statCards.map((card) => (
+            <StatCard key={card.label} {...card} />
+          ))}
+        </div>
+
+        {/* Timeline */}
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 mb-8">
+          <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+            Generations Over Time
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={timeline}
+                margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="generations"
+                  name="Generations"
+                  stroke="#2563eb"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="addedToCart"
+                  name="Added to Cart"
+                  stroke="#16a34a"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <ConversionTable
+            title="By Shop"
+            labelHeader="Shop"
+            rows={byShop.map((row: ConversionRow) => ({
+              ...row,
+              label: (
+                <Link
+                  to={`/shop/${row.key}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  {shopMap[row.key] ?? row.key}
+                </Link>
+              ),
+            }))}
+          />
+
+          <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+            <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+              Recent Generations
+            </div>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left py-2 px-3">Shop</th>
+                  <th className="text-left py-2 px-3">Added to Cart</th>
+                  <th className="text-right py-2 px-3">Created</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recentGenerations.map((generation: RecentGeneration) => (
+                  <tr key={generation.id}>
+                    <td className="py-2 px-3">
+                      <Link
+                        to={`/shop/${generation.shopId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {generation.Shop.domain}
+                      </Link>
+                    </td>
+                    <td className="py-2 px-3">
+                      {generation.addedToCart ? "Yes" : "No"}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {new Date(generation.createdAt).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
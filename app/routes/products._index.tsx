@@ -0,0 +1,166 @@
+import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
+import { useLoaderData, Link, Form } from "@remix-run/react";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { getDateRangeFilter } from "~/utils/dateFilters.server";
+import { getTopProducts, type ProductRow } from "~/utils/products.server";
+import { DateRangeFilter } from "~/components/DateRangeFilter";
+import { ProductThumbnail } from "~/components/ProductThumbnail";
+import { formatRate } from "~/components/ConversionTable";
+
+const PRODUCT_LIMIT = 50;
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Products" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  await requireUser(request);
+
+  const url = new URL(request.url);
+  const { dateFilter, customStart, customEnd, timezone, range } =
+    getDateRangeFilter(url.searchParams);
+  const shopId = url.searchParams.get("shopId") || "";
+  const where = {
+    ...(range && { createdAt: range }),
+    ...(shopId && { shopId }),
+  };
+
+  const [products, shops] = await Promise.all([
+    getTopProducts(where, { take: PRODUCT_LIMIT }),
+    // Only shops that have generations are worth filtering by
+    prisma.shop.findMany({
+      where: { Generation: { some: {} } },
+      select: { id: true, domain: true },
+      orderBy: { domain: "asc" },
+    }),
+  ]);
+
+  return json({
+    products,
+    shops,
+    shopId,
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+  });
+};
+
+export default function ProductsPage() {
+  const {
+    products,
+    shops,
+    shopId,
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+  } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-5xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          Products
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          The most tried-on products, across all shops or for a single shop.
+        </p>
+
+        <DateRangeFilter
+          dateFilter={dateFilter}
+          customStart={customStart}
+          customEnd={customEnd}
+          timezone={timezone}
+        >
+          <Form method="get" className="flex items-center gap-2">
+            <input type="hidden" name="dateFilter" value={dateFilter} />
+            {customStart && (
+              <input type="hidden" name="start" value={customStart} />
+            )}
+            {customEnd && <input type="hidden" name="end" value={customEnd} />}
+            <input type="hidden" name="tz" value={timezone} />
+            <select
+              name="shopId"
+              defaultValue={shopId}
+              onChange={(e) => e.currentTarget.form?.requestSubmit()}
+              className="rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-1 text-sm"
+            >
+              <option value="">All shops</option>
+              {shops.map((shop: { id: string; domain: string }) => (
+                <option key={shop.id} value={shop.id}>
+                  {shop.domain}
+                </option>
+              ))}
+            </select>
+          </Form>
+        </DateRangeFilter>
+
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+          <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+            Top {PRODUCT_LIMIT} Products
+          </div>
+          {products.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No generations in this range
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left py-2 px-3">#</th>
+                  <th className="text-left py-2 px-3">Product</th>
+                  <th className="text-right py-2 px-3">Generations</th>
+                  <th className="text-right py-2 px-3">Unique Shoppers</th>
+                  <th className="text-right py-2 px-3">Added to Cart</th>
+                  <th className="text-right py-2 px-3">Conversion</th>
+                </tr>
+              </thead>
+              <tbody>
+                {products.map((product: ProductRow, index: number) => (
+                  <tr key={product.productId}>
+                    <td className="py-2 px-3 text-gray-500">{index + 1}</td>
+                    <td className="py-2 px-3">
+                      <Link
+                        to={`/products/${encodeURIComponent(
+                          product.productId
+                        )}`}
+                        className="flex items-center gap-3 text-blue-600 hover:underline"
+                      >
+                        <ProductThumbnail
+                          src={product.productImage}
+                          alt={product.productName}
+                        />
+                        <span>
+                          {product.productName || "Unnamed Product"}
+                          {product.productCategory && (
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">
+                              {product.productCategory}
+                            </span>
+                          )}
+                        </span>
+                      </Link>
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {product.generations}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {product.uniqueShoppers}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {product.addedToCart}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      {formatRate(product.rate)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
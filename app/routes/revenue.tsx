@@ -0,0 +1,350 @@
+import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import {
+  formatDay,
+  getDateRangeFilter,
+  type DateRangeCondition,
+} from "~/utils/dateFilters.server";
+import {
+  getRevenueCalculator,
+  isTestCharge,
+  parseIncludeTestCharges,
+  revenueChargeWhere,
+} from "~/utils/revenue.server";
+import { TestChargesToggle } from "~/components/TestChargesToggle";
+import { DateRangeFilter } from "~/components/DateRangeFilter";
+import { StatCard } from "~/components/StatCard";
+
+type Breakdown = { key: string; label: string; gross: number; net: number };
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Revenue" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  await requireUser(request, "billing:view");
+
+  const url = new URL(request.url);
+  const { dateFilter, customStart, customEnd, timezone, range, previous } =
+    getDateRangeFilter(url.searchParams);
+  const includeTestCharges = parseIncludeTestCharges(url.searchParams);
+
+  // Billing events and generation count for the selected or previous period
+  const getPeriodData = (period: DateRangeCondition | undefined) =>
+    Promise.all([
+      prisma.billingLog.findMany({
+        where: period ? { timestamp: period } : {},
+        select: {
+          shopId: true,
+          chargeId: true,
+          planId: true,
+          eventType: true,
+          price: true,
+          timestamp: true,
+          Shop: { select: { allowTestPayment: true } },
+        },
+        orderBy: { timestamp: "asc" },
+      }),
+      prisma.generation.count({
+        where: period ? { createdAt: period } : {},
+      }),
+    ]);
+
+  const [
+    [allBillingLogs, totalGenerations],
+    previousData,
+    subscriptionEvents,
+    revenue,
+  ] = await Promise.all([
+    getPeriodData(range),
+    previous ? getPeriodData(previous) : null,
+    // Latest subscription event per shop, for MRR
+    prisma.billingLog.findMany({
+      where: {
+        AND: [
+          {
+            eventType: { in: ["PLAN_CHANGE", "PLAN_CANCEL"] },
+            Shop: { isUninstalled: false },
+          },
+          revenueChargeWhere(includeTestCharges),
+        ],
+      },
+      select: { shopId: true, eventType: true, price: true },
+      orderBy: { timestamp: "desc" },
+      distinct: ["shopId"],
+    }),
+    getRevenueCalculator(),
+  ]);
+
+  const withoutTestCharges = (logs: typeof allBillingLogs) =>
+    includeTestCharges
+      ? logs
+      : logs.filter((log) => !isTestCharge(log, log.Shop));
+
+  // Card figures, computed the same way for both periods
+  const summarize = (logs: typeof allBillingLogs, generations: number) => {
+    const counted = withoutTestCharges(logs);
+    const grossRevenue = counted.reduce((sum, log) => sum + log.price, 0);
+    const netRevenue = counted.reduce(
+      (sum, log) => sum + revenue.net(log.price, log.timestamp),
+      0
+    );
+    const payingShops = new Set(
+      counted.filter((log) => log.price > 0).map((log) => log.shopId)
+    ).size;
+    return {
+      grossRevenue,
+      netRevenue,
+      payingShops,
+      arpu: netRevenue / (payingShops || 1),
+      revenuePerGeneration: netRevenue / (generations || 1),
+      testGross: logs
+        .filter((log) => isTestCharge(log, log.Shop))
+        .reduce((sum, log) => sum + log.price, 0),
+    };
+  };
+
+  const billingLogs = withoutTestCharges(allBillingLogs);
+
+  // Revenue over time, grouped by day
+  const chartData: { date: string; gross: number; net: number }[] = [];
+  billingLogs.forEach((log) => {
+    const date = formatDay(log.timestamp, timezone);
+    const net = revenue.net(log.price, log.timestamp);
+    const entry = chartData.find((d) => d.date === date);
+    if (entry) {
+      entry.gross += log.price;
+      entry.net += net;
+    } else {
+      chartData.push({ date, gross: log.price, net });
+    }
+  });
+
+  const groupBy = (key: (log: (typeof billingLogs)[number]) => string) => {
+    const totals = new Map<string, Breakdown>();
+    billingLogs.forEach((log) => {
+      const row = totals.get(key(log)) ?? {
+        key: key(log),
+        label: key(log),
+        gross: 0,
+        net: 0,
+      };
+      row.gross += log.price;
+      row.net += revenue.net(log.price, log.timestamp);
+      totals.set(row.key, row);
+    });
+    return [...totals.values()].sort((a, b) => b.gross - a.gross);
+  };
+
+  const byEventType = groupBy((log) => log.eventType);
+  const byPlan = groupBy((log) => log.planId ?? "none");
+
+  // BillingLog only stores the plan ID, so look up names for display
+  const plans = await prisma.plan.findMany({
+    where: { id: { in: byPlan.map((row) => row.key) } },
+    select: { id: true, name: true },
+  });
+  const planNames = new Map(plans.map((plan) => [plan.id, plan.name]));
+  byPlan.forEach((row) => {
+    row.label =
+      row.key === "none" ? "No plan" : planNames.get(row.key) ?? row.key;
+  });
+
+  // Valued at today's fees, since it is the revenue expected going forward
+  const now = new Date();
+  const mrr = subscriptionEvents
+    .filter((event) => event.eventType === "PLAN_CHANGE")
+    .reduce((sum, event) => sum + revenue.net(event.price, now), 0);
+
+  return json({
+    stats: { ...summarize(allBillingLogs, totalGenerations), mrr },
+    previousStats: previousData && summarize(...previousData),
+    includeTestCharges,
+    chartData,
+    byEventType,
+    byPlan,
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+  });
+};
+
+function BreakdownTable({ title, rows }: { title: string; rows: Breakdown[] }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+      <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+        {title}
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No billing events in this range
+        </p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left py-2 px-3">Name</th>
+              <th className="text-right py-2 px-3">Gross</th>
+              <th className="text-right py-2 px-3">Net</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td className="py-2 px-3">{row.label}</td>
+                <td className="py-2 px-3 text-right">
+                  ${row.gross.toFixed(2)}
+                </td>
+                <td className="py-2 px-3 text-right">${row.net.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function RevenuePage() {
+  const {
+    stats,
+    previousStats,
+    chartData,
+    byEventType,
+    byPlan,
+    includeTestCharges,
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+  } = useLoaderData<typeof loader>();
+
+  // MRR is a snapshot of current subscriptions, so it has no comparison
+  const statCards = [
+    {
+      label: "Gross Revenue",
+      value: `$${stats.grossRevenue.toFixed(2)}`,
+      current: stats.grossRevenue,
+      previous: previousStats?.grossRevenue,
+    },
+    {
+      label: "Net Revenue",
+      value: `$${stats.netRevenue.toFixed(2)}`,
+      current: stats.netRevenue,
+      previous: previousStats?.netRevenue,
+    },
+    { label: "MRR (current)", value: `$${stats.mrr.toFixed(2)}` },
+    {
+      label: "Paying Shops",
+      value: stats.payingShops,
+      current: stats.payingShops,
+      previous: previousStats?.payingShops,
+    },
+    {
+      label: "ARPU (per paying shop)",
+      value: `$${stats.arpu.toFixed(2)}`,
+      current: stats.arpu,
+      previous: previousStats?.arpu,
+    },
+    {
+      label: "Revenue per Generation",
+      value: `$${stats.revenuePerGeneration.toFixed(4)}`,
+      current: stats.revenuePerGeneration,
+      previous: previousStats?.revenuePerGeneration,
+    },
+    {
+      label: includeTestCharges
+        ? "Test Charges (gross, included)"
+        : "Test Charges (gross, excluded)",
+      value: `$${stats.testGross.toFixed(2)}`,
+      current: stats.testGross,
+      previous: previousStats?.testGross,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          Revenue
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          Gross and net revenue, recurring revenue and per-shop averages.
+        </p>
+
+        <DateRangeFilter
+          dateFilter={dateFilter}
+          customStart={customStart}
+          customEnd={customEnd}
+          timezone={timezone}
+        >
+          <TestChargesToggle />
+        </DateRangeFilter>
+
+        {/* Key Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+          {statCards.map((card) => (
+            <StatCard key={card.label} {...card} />
+          ))}
+        </div>
+
+        {/* Chart */}
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 mb-8">
+          <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+            Gross vs. Net Revenue Over Time
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={chartData}
+                margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} />
+                <Tooltip
+                  formatter={(value: number) => `$${value.toFixed(2)}`}
+                />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="gross"
+                  name="Gross"
+                  stroke="#2563eb"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="net"
+                  name="Net"
+                  stroke="#16a34a"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <BreakdownTable title="By Event Type" rows={byEventType} />
+          <BreakdownTable title="By Plan" rows={byPlan} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,108 @@
-import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
-import { useLoaderData, Link } from "@remix-run/react";
+import {
+  json,
+  type ActionFunction,
+  type LoaderFunction,
+  type MetaFunction,
+} from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useSearchParams,
+} from "@remix-run/react";
 import { prisma } from "~/utils/db.server";
-import type {
-  Shop,
-  Generation,
-  BillingLog,
-  Plan,
-  Session,
-  Log,
-} from "@prisma/client";
+import { requireUser } from "~/utils/auth.server";
+import { can } from "~/utils/roles";
+import { recordAudit, recordView } from "~/utils/audit.server";
+import { applyPlanAction, isPlanAction } from "~/utils/planActions.server";
+import { maskSecret } from "~/utils/redaction.server";
+import {
+  addDays,
+  formatDay,
+  getDateRangeFilter,
+  startOfDay,
+} from "~/utils/dateFilters.server";
+import { getCategoryOptions } from "~/utils/categories.server";
+import { getCreditForecasts } from "~/utils/creditForecast.server";
+import { FORECAST_WINDOW_DAYS, formatDaysLeft } from "~/utils/creditForecast";
+import {
+  SHOP_HISTORY_PAGE_SIZE,
+  buildGenerationWhere,
+  parseGenerationFilters,
+  parsePage,
+} from "~/utils/shopHistory.server";
+import {
+  isTestCharge,
+  parseIncludeTestCharges,
+  realChargeWhere,
+  sumNetRevenueByShop,
+} from "~/utils/revenue.server";
+import { TestChargesToggle } from "~/components/TestChargesToggle";
+import { TestChargeBadge } from "~/components/TestChargeBadge";
+import { ExportLinks } from "~/components/ExportLinks";
+import { DateRangeFilter } from "~/components/DateRangeFilter";
+import { ConversionTable, formatRate } from "~/components/ConversionTable";
+import { UNCATEGORIZED, UNCATEGORIZED_LABEL } from "~/utils/categories";
+import {
+  getShopperStats,
+  getTopShoppers,
+  maskEmail,
+} from "~/utils/shoppers.server";
+import { ShopperAnalytics } from "~/components/ShopperAnalytics";
+import { MethodBadge, StatusBadge } from "~/components/LogBadges";
+import { RevealForm } from "~/components/RevealForm";
+import { PlanActions } from "~/components/PlanActions";
+import {
+  getConversionBy,
+  getConversionSummary,
+  getConversionTimeline,
+  type ConversionRow,
+} from "~/utils/conversion.server";
+import { getProductDetails } from "~/utils/products.server";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+
+type ShopLog = {
+  id: string;
+  endpoint: string;
+  method: string;
+  status: number;
+  createdAt: string;
+};
+
+type ShopGeneration = {
+  id: string;
+  productId: string;
+  productName: string;
+  productImage: string;
+  productCategory: string | null;
+  userEmail: string;
+  addedToCart: boolean;
+  createdAt: string;
+};
+
+type ShopBillingLog = {
+  id: string;
+  eventType: string;
+  credits: number;
+  price: number;
+  chargeId: string | null;
+  timestamp: string;
+  isTest: boolean;
+};
+
+const CONVERSION_TIMELINE_DAYS = 90;
+
+const filterInputClassName =
+  "mt-1 w-full rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm";
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
   if (!data?.shop) {
@@ -23,55 +117,302 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
   ];
 };
 
-export const loader: LoaderFunction = async ({ params }) => {
+export const loader: LoaderFunction = async ({ request, params }) => {
+  const user = await requireUser(request);
+  const canViewBilling = can(user.role, "billing:view");
+  const canViewPii = can(user.role, "shops:pii");
+  const canViewShopperEmails = can(user.role, "shoppers:pii");
+  const canViewLogs = can(user.role, "logs:view");
+  const canViewSecrets = can(user.role, "secrets:view");
+
   const { shopId } = params;
 
   if (!shopId) {
     throw new Response("Shop ID is required", { status: 400 });
   }
 
-  const shop = await prisma.shop.findUnique({
+  const shopRecord = await prisma.shop.findUnique({
     where: { id: shopId },
     include: {
-      Generation: {
-        orderBy: { createdAt: "desc" },
-      },
-      BillingLog: {
-        orderBy: { timestamp: "desc" },
-      },
+      _count: { select: { Generation: true, BillingLog: true } },
       Plan: true,
-      Session: true,
-      Log: {
+      Session: canViewPii && {
+        omit: { state: true },
+      },
+      // Bodies, headers and responses stay on the /logs detail panel, where
+      // they are redacted
+      Log: canViewLogs && {
+        select: {
+          id: true,
+          endpoint: true,
+          method: true,
+          status: true,
+          createdAt: true,
+        },
         orderBy: { createdAt: "desc" },
         take: 50, // Limit to last 50 logs
       },
     },
   });
 
-  if (!shop) {
+  if (!shopRecord) {
     throw new Response("Shop not found", { status: 404 });
   }
+  await recordView(user, {
+    action: "shop.view",
+    shopId,
+    targetType: "Shop",
+    targetId: shopId,
+  });
+
+  // Strip whatever the current role is not allowed to see
+  const shop = {
+    ...shopRecord,
+    // Secrets are only ever sent masked; admins can reveal them one at a time
+    apiKey: canViewSecrets ? maskSecret(shopRecord.apiKey) : null,
+    email: canViewPii ? shopRecord.email : null,
+    phone: canViewPii ? shopRecord.phone : null,
+    Session: shopRecord.Session
+      ? {
+          ...shopRecord.Session,
+          accessToken: canViewSecrets
+            ? maskSecret(shopRecord.Session.accessToken)
+            : null,
+        }
+      : null,
+    Log: shopRecord.Log ?? [],
+  };
 
   // Calculate additional statistics
-  const totalRevenue = shop.BillingLog.reduce((sum, log) => {
-    const transactionFee = log.price * 0.029; // 2.90% transaction fee
-    return sum + (log.price - transactionFee);
-  }, 0);
+  const url = new URL(request.url);
+  const includeTestCharges = parseIncludeTestCharges(url.searchParams);
+  // Lifetime totals, summed in the database; test revenue is the difference
+  const [allRevenue, realRevenue] = canViewBilling
+    ? await Promise.all([
+        sumNetRevenueByShop({ shopId }),
+        sumNetRevenueByShop({ AND: [{ shopId }, realChargeWhere()] }),
+      ])
+    : [new Map<string, number>(), new Map<string, number>()];
+  const realTotal = realRevenue.get(shopId) ?? 0;
+  const testRevenue = (allRevenue.get(shopId) ?? 0) - realTotal;
+  const totalRevenue = realTotal + (includeTestCharges ? testRevenue : 0);
+
+  // Generation and billing history, filtered and paged in the database
+  const history = getDateRangeFilter(url.searchParams, "all");
+  const generationFilters = parseGenerationFilters(url.searchParams, {
+    canSearchPii: canViewShopperEmails,
+  });
+  const generationsWhere = buildGenerationWhere(
+    shopId,
+    generationFilters,
+    history.range
+  );
+  const billingWhere = {
+    shopId,
+    ...(history.range && { timestamp: history.range }),
+  };
+  const generationsPage = parsePage(url.searchParams, "generationsPage");
+  const billingPage = parsePage(url.searchParams, "billingPage");
+  const [
+    generations,
+    generationsTotal,
+    billingLogs,
+    billingTotal,
+    categoryOptions,
+    forecasts,
+  ] = await Promise.all([
+    prisma.generation.findMany({
+      where: generationsWhere,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      skip: (generationsPage - 1) * SHOP_HISTORY_PAGE_SIZE,
+      take: SHOP_HISTORY_PAGE_SIZE,
+    }),
+    prisma.generation.count({ where: generationsWhere }),
+    canViewBilling
+      ? prisma.billingLog.findMany({
+          where: billingWhere,
+          orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+          skip: (billingPage - 1) * SHOP_HISTORY_PAGE_SIZE,
+          take: SHOP_HISTORY_PAGE_SIZE,
+        })
+      : [],
+    canViewBilling ? prisma.billingLog.count({ where: billingWhere }) : 0,
+    getCategoryOptions({ shopId }),
+    getCreditForecasts([shopRecord]),
+  ]);
 
-  const recentGenerations = shop.Generation.slice(0, 10);
-  const recentBillingLogs = shop.BillingLog.slice(0, 10);
+  // Add-to-cart conversion for this shop. The chart follows the history
+  // range, or covers the last CONVERSION_TIMELINE_DAYS days for all time
+  const conversionRange = history.range ?? {
+    gte: startOfDay(
+      addDays(
+        formatDay(new Date(), history.timezone),
+        1 - CONVERSION_TIMELINE_DAYS
+      ),
+      history.timezone
+    ),
+  };
+  const [
+    conversion,
+    conversionTimeline,
+    productConversion,
+    categoryConversion,
+  ] = await Promise.all([
+    getConversionSummary({ shopId }),
+    getConversionTimeline({ range: conversionRange, shopId }, history.timezone),
+    getConversionBy("productId", { shopId }),
+    getConversionBy("productCategory", { shopId }),
+  ]);
+  const [shopperStats, topShoppers] = await Promise.all([
+    getShopperStats({ shopId }),
+    getTopShoppers({ shopId }, { revealEmails: canViewShopperEmails }),
+  ]);
+
+  const products = await getProductDetails(
+    productConversion.map((row) => row.key)
+  );
+  const productNames = Object.fromEntries(
+    [...products.values()].map((g) => [g.productId, g.productName])
+  );
 
   return json({
     shop,
     totalRevenue,
-    recentGenerations,
-    recentBillingLogs,
+    testRevenue,
+    includeTestCharges,
+    history: {
+      dateFilter: history.dateFilter,
+      customStart: history.customStart,
+      customEnd: history.customEnd,
+      timezone: history.timezone,
+    },
+    generationFilters,
+    categoryOptions,
+    creditForecast: forecasts.get(shopId) ?? null,
+    generations: {
+      rows: generations.map((generation) => ({
+        ...generation,
+        userEmail: canViewShopperEmails
+          ? generation.userEmail
+          : maskEmail(generation.userEmail),
+      })),
+      total: generationsTotal,
+      page: generationsPage,
+      totalPages: Math.max(
+        Math.ceil(generationsTotal / SHOP_HISTORY_PAGE_SIZE),
+        1
+      ),
+    },
+    billing: {
+      rows: billingLogs.map((log) => ({
+        ...log,
+        isTest: isTestCharge(log, shop),
+      })),
+      total: billingTotal,
+      page: billingPage,
+      totalPages: Math.max(Math.ceil(billingTotal / SHOP_HISTORY_PAGE_SIZE), 1),
+    },
+    conversion,
+    conversionTimeline,
+    conversionTimelineDays: history.range ? null : CONVERSION_TIMELINE_DAYS,
+    productConversion,
+    categoryConversion,
+    productNames,
+    shopperStats,
+    topShoppers,
+    permissions: {
+      canViewBilling,
+      canViewPii,
+      canViewShopperEmails,
+      canViewLogs,
+      canViewSecrets,
+      canManagePlans: can(user.role, "plans:manage"),
+      canViewAudit: can(user.role, "audit:view"),
+    },
   });
 };
 
+const REVEALABLE_SECRETS = ["apiKey", "accessToken"] as const;
+type RevealableSecret = (typeof REVEALABLE_SECRETS)[number];
+
+export const action: ActionFunction = async ({ request, params }) => {
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (isPlanAction(intent)) {
+    const user = await requireUser(request, "plans:manage");
+    const result = await applyPlanAction(
+      user,
+      params.shopId as string,
+      intent,
+      formData
+    );
+    return json({ plan: result }, { status: result.error ? 400 : 200 });
+  }
+
+  const user = await requireUser(request, "secrets:view");
+  const field = formData.get("field") as RevealableSecret;
+  const reason = String(formData.get("reason") || "").trim();
+
+  if (intent !== "reveal" || !REVEALABLE_SECRETS.includes(field)) {
+    return json({ error: "Unknown action" }, { status: 400 });
+  }
+  if (!reason) {
+    return json({ error: "A reason is required", field }, { status: 400 });
+  }
+
+  const shop = await prisma.shop.findUnique({
+    where: { id: params.shopId },
+    select: {
+      id: true,
+      apiKey: true,
+      Session: { select: { id: true, accessToken: true } },
+    },
+  });
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const value =
+    field === "apiKey" ? shop.apiKey : shop.Session?.accessToken ?? null;
+  await recordAudit(user, {
+    action: "secret.reveal",
+    shopId: shop.id,
+    targetType: field === "apiKey" ? "Shop" : "Session",
+    targetId: field === "apiKey" ? shop.id : shop.Session?.id,
+    reason,
+    after: { field },
+  });
+
+  return json({ revealed: { field, value } });
+};
+
 export default function ShopDetails() {
-  const { shop, totalRevenue, recentGenerations, recentBillingLogs } =
-    useLoaderData<typeof loader>();
+  const {
+    shop,
+    totalRevenue,
+    testRevenue,
+    includeTestCharges,
+    history,
+    generationFilters,
+    categoryOptions,
+    creditForecast,
+    generations,
+    billing,
+    conversion,
+    conversionTimeline,
+    conversionTimelineDays,
+    productConversion,
+    categoryConversion,
+    productNames,
+    shopperStats,
+    topShoppers,
+    permissions,
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const [searchParams] = useSearchParams();
+  const revealed = (field: RevealableSecret): string | null =>
+    actionData?.revealed?.field === field ? actionData.revealed.value : null;
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -94,6 +435,20 @@ export default function ShopDetails() {
               </p>
             </div>
             <div className="text-right">
+              <Link
+                to={`/shop/${shop.id}/timeline`}
+                className="mr-4 text-sm text-blue-600 hover:underline"
+              >
+                Activity timeline
+              </Link>
+              {permissions.canViewAudit && (
+                <Link
+                  to={`/audit?shopId=${shop.id}`}
+                  className="mr-4 text-sm text-blue-600 hover:underline"
+                >
+                  Audit history
+                </Link>
+              )}
               <span
                 className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full ${
                   shop.isUninstalled
@@ -135,71 +490,83 @@ export default function ShopDetails() {
                   Total Generations
                 </p>
                 <p className="text-lg md:text-2xl font-semibold text-gray-900 dark:text-white">
-                  {shop.Generation.length}
+                  {shop._count.Generation}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatRate(conversion.rate)} added to cart
                 </p>
               </div>
             </div>
           </div>
 
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-3 md:p-6 border border-gray-200 dark:border-gray-700">
-            <div className="flex flex-col md:flex-row md:items-center">
-              <div className="flex-shrink-0 mb-2 md:mb-0">
-                <div className="w-6 h-6 md:w-8 md:h-8 bg-green-500 rounded-md flex items-center justify-center">
-                  <svg
-                    className="w-4 h-4 md:w-5 md:h-5 text-white"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1"
-                    />
-                  </svg>
+          {permissions.canViewBilling && (
+            <>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-3 md:p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex flex-col md:flex-row md:items-center">
+                  <div className="flex-shrink-0 mb-2 md:mb-0">
+                    <div className="w-6 h-6 md:w-8 md:h-8 bg-green-500 rounded-md flex items-center justify-center">
+                      <svg
+                        className="w-4 h-4 md:w-5 md:h-5 text-white"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1"
+                        />
+                      </svg>
+                    </div>
+                  </div>
+                  <div className="md:ml-4">
+                    <p className="text-xs md:text-sm font-medium text-gray-500 dark:text-gray-400">
+                      Total Revenue
+                    </p>
+                    <p className="text-lg md:text-2xl font-semibold text-gray-900 dark:text-white">
+                      ${totalRevenue.toFixed(2)}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      ${testRevenue.toFixed(2)} in test charges{" "}
+                      {includeTestCharges ? "included" : "excluded"}
+                    </p>
+                    <TestChargesToggle />
+                  </div>
                 </div>
               </div>
-              <div className="md:ml-4">
-                <p className="text-xs md:text-sm font-medium text-gray-500 dark:text-gray-400">
-                  Total Revenue
-                </p>
-                <p className="text-lg md:text-2xl font-semibold text-gray-900 dark:text-white">
-                  ${totalRevenue.toFixed(2)}
-                </p>
-              </div>
-            </div>
-          </div>
 
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-3 md:p-6 border border-gray-200 dark:border-gray-700">
-            <div className="flex flex-col md:flex-row md:items-center">
-              <div className="flex-shrink-0 mb-2 md:mb-0">
-                <div className="w-6 h-6 md:w-8 md:h-8 bg-purple-500 rounded-md flex items-center justify-center">
-                  <svg
-                    className="w-4 h-4 md:w-5 md:h-5 text-white"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"
-                    />
-                  </svg>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-3 md:p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex flex-col md:flex-row md:items-center">
+                  <div className="flex-shrink-0 mb-2 md:mb-0">
+                    <div className="w-6 h-6 md:w-8 md:h-8 bg-purple-500 rounded-md flex items-center justify-center">
+                      <svg
+                        className="w-4 h-4 md:w-5 md:h-5 text-white"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2"
+                        />
+                      </svg>
+                    </div>
+                  </div>
+                  <div className="md:ml-4">
+                    <p className="text-xs md:text-sm font-medium text-gray-500 dark:text-gray-400">
+                      Billing Transactions
+                    </p>
+                    <p className="text-lg md:text-2xl font-semibold text-gray-900 dark:text-white">
+                      {shop._count.BillingLog}
+                    </p>
+                  </div>
                 </div>
               </div>
-              <div className="md:ml-4">
-                <p className="text-xs md:text-sm font-medium text-gray-500 dark:text-gray-400">
-                  Billing Transactions
-                </p>
-                <p className="text-lg md:text-2xl font-semibold text-gray-900 dark:text-white">
-                  {shop.BillingLog.length}
-                </p>
-              </div>
-            </div>
-          </div>
+            </>
+          )}
 
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-3 md:p-6 border border-gray-200 dark:border-gray-700">
             <div className="flex flex-col md:flex-row md:items-center">
@@ -263,7 +630,9 @@ export default function ShopDetails() {
                     Email
                   </dt>
                   <dd className="mt-1 text-sm text-gray-900 dark:text-white">
-                    {shop.email || "Not provided"}
+                    {permissions.canViewPii
+                      ? shop.email || "Not provided"
+                      : "Hidden"}
                   </dd>
                 </div>
                 <div>
@@ -271,7 +640,9 @@ export default function ShopDetails() {
                     Phone
                   </dt>
                   <dd className="mt-1 text-sm text-gray-900 dark:text-white">
-                    {shop.phone || "Not provided"}
+                    {permissions.canViewPii
+                      ? shop.phone || "Not provided"
+                      : "Hidden"}
                   </dd>
                 </div>
                 <div>
@@ -302,9 +673,19 @@ export default function ShopDetails() {
                   <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
                     API Key
                   </dt>
-                  <dd className="mt-1 text-sm text-gray-900 dark:text-white font-mono">
-                    {shop.apiKey.substring(0, 20)}...
+                  <dd className="mt-1 text-sm text-gray-900 dark:text-white font-mono break-all">
+                    {revealed("apiKey") ?? shop.apiKey ?? "Hidden"}
                   </dd>
+                  {shop.apiKey && !revealed("apiKey") && (
+                    <RevealForm
+                      fields={{ field: "apiKey" }}
+                      error={
+                        actionData?.field === "apiKey"
+                          ? actionData.error
+                          : undefined
+                      }
+                    />
+                  )}
                 </div>
                 <div>
                   <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
@@ -327,60 +708,91 @@ export default function ShopDetails() {
             </div>
             <div className="p-6">
               {shop.Plan ? (
-                <dl className="space-y-4">
-                  <div>
-                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                      Plan Name
-                    </dt>
-                    <dd className="mt-1 text-sm text-gray-900 dark:text-white">
-                      {shop.Plan.name}
-                    </dd>
-                  </div>
-                  <div>
-                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                      Available Generations
-                    </dt>
-                    <dd className="mt-1 text-sm text-gray-900 dark:text-white">
-                      {shop.Plan.hasUnlimitedGenerations
-                        ? "Unlimited"
-                        : shop.Plan.availableGenerations}
-                    </dd>
-                  </div>
-                  <div>
-                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                      Total Generations Used
-                    </dt>
-                    <dd className="mt-1 text-sm text-gray-900 dark:text-white">
-                      {shop.Plan.totalGenerationsUsed}
-                    </dd>
-                  </div>
-                  <div>
-                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                      Status
-                    </dt>
-                    <dd className="mt-1">
-                      <span
-                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                          shop.Plan.isActive
-                            ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
-                            : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
-                        }`}
-                      >
-                        {shop.Plan.isActive ? "Active" : "Inactive"}
-                      </span>
-                    </dd>
-                  </div>
-                  <div>
-                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                      Last Reset
-                    </dt>
-                    <dd className="mt-1 text-sm text-gray-900 dark:text-white">
-                      {shop.Plan.lastResetAt
-                        ? new Date(shop.Plan.lastResetAt).toLocaleDateString()
-                        : "Never"}
-                    </dd>
-                  </div>
-                </dl>
+                <>
+                  <dl className="space-y-4">
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                        Plan Name
+                      </dt>
+                      <dd className="mt-1 text-sm text-gray-900 dark:text-white">
+                        {shop.Plan.name}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                        Available Generations
+                      </dt>
+                      <dd className="mt-1 text-sm text-gray-900 dark:text-white">
+                        {shop.Plan.hasUnlimitedGenerations
+                          ? "Unlimited"
+                          : shop.Plan.availableGenerations}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                        Total Generations Used
+                      </dt>
+                      <dd className="mt-1 text-sm text-gray-900 dark:text-white">
+                        {shop.Plan.totalGenerationsUsed}
+                      </dd>
+                    </div>
+                    {creditForecast && (
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                          Credits Run Out In
+                        </dt>
+                        <dd className="mt-1 text-sm text-gray-900 dark:text-white">
+                          {formatDaysLeft(creditForecast.daysLeft)}
+                          {creditForecast.runOutAt &&
+                            creditForecast.daysLeft > 0 &&
+                            ` (${new Date(
+                              creditForecast.runOutAt
+                            ).toLocaleDateString()})`}
+                        </dd>
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          At {creditForecast.dailyRate.toFixed(1)} generations
+                          per day over the last{" "}
+                          {Math.round(creditForecast.windowDays)} days
+                          {creditForecast.windowDays < FORECAST_WINDOW_DAYS &&
+                            " since install"}
+                        </p>
+                      </div>
+                    )}
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                        Status
+                      </dt>
+                      <dd className="mt-1">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                            shop.Plan.isActive
+                              ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                              : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                          }`}
+                        >
+                          {shop.Plan.isActive ? "Active" : "Inactive"}
+                        </span>
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                        Last Reset
+                      </dt>
+                      <dd className="mt-1 text-sm text-gray-900 dark:text-white">
+                        {shop.Plan.lastResetAt
+                          ? new Date(shop.Plan.lastResetAt).toLocaleDateString()
+                          : "Never"}
+                      </dd>
+                    </div>
+                  </dl>
+                  {permissions.canManagePlans && (
+                    <PlanActions
+                      plan={shop.Plan}
+                      timezone={history.timezone}
+                      result={actionData?.plan}
+                    />
+                  )}
+                </>
               ) : (
                 <p className="text-gray-500 dark:text-gray-400">
                   No plan associated with this shop
@@ -458,156 +870,372 @@ export default function ShopDetails() {
                     {shop.Session.emailVerified ? "Yes" : "No"}
                   </dd>
                 </div>
+                {shop.Session.accessToken && (
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                      Access Token
+                    </dt>
+                    <dd className="mt-1 text-sm text-gray-900 dark:text-white font-mono break-all">
+                      {revealed("accessToken") ?? shop.Session.accessToken}
+                    </dd>
+                    {!revealed("accessToken") && (
+                      <RevealForm
+                        fields={{ field: "accessToken" }}
+                        error={
+                          actionData?.field === "accessToken"
+                            ? actionData.error
+                            : undefined
+                        }
+                      />
+                    )}
+                  </div>
+                )}
               </dl>
             </div>
           </div>
         )}
 
-        {/* Recent Generations */}
+        {/* Conversion */}
         <div className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700 mb-8">
           <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
             <h2 className="text-lg font-medium text-gray-900 dark:text-white">
-              Recent Generations ({shop.Generation.length} total)
+              Add-to-Cart Conversion ({conversion.addedToCart} of{" "}
+              {conversion.generations})
             </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Daily rate{" "}
+              {conversionTimelineDays
+                ? `over the last ${conversionTimelineDays} days`
+                : "over the history range below"}
+            </p>
           </div>
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-              <thead className="bg-gray-50 dark:bg-gray-700">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Product
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    User Email
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Category
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Added to Cart
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Created
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                {recentGenerations.map((generation: any) => (
-                  <tr
-                    key={generation.id}
-                    className="hover:bg-gray-50 dark:hover:bg-gray-700"
-                  >
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        {generation.productImage && (
-                          <img
-                            className="h-10 w-10 rounded-full object-cover mr-3"
-                            src={generation.productImage}
-                            alt={generation.productName}
-                          />
-                        )}
-                        <div>
-                          <div className="text-sm font-medium text-gray-900 dark:text-white">
-                            {generation.productName || "Unnamed Product"}
-                          </div>
-                          <div className="text-sm text-gray-500 dark:text-gray-400">
-                            ID: {generation.productId}
-                          </div>
-                        </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                      {generation.userEmail}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                      {generation.productCategory || "N/A"}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span
-                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                          generation.addedToCart
-                            ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
-                            : "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
-                        }`}
-                      >
-                        {generation.addedToCart ? "Yes" : "No"}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      {new Date(generation.createdAt).toLocaleDateString()}
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+          <div className="p-6 h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={conversionTimeline}
+                margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={(value: number) => formatRate(value)}
+                />
+                <Tooltip formatter={(value: number) => formatRate(value)} />
+                <Line
+                  type="monotone"
+                  dataKey="rate"
+                  name="Conversion"
+                  stroke="#16a34a"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
           </div>
         </div>
 
-        {/* Recent Billing Logs */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+          <ConversionTable
+            title="Top Products"
+            labelHeader="Product"
+            rows={productConversion.map((row: ConversionRow) => ({
+              ...row,
+              label: (
+                <Link
+                  to={`/products/${encodeURIComponent(row.key)}`}
+                  className="text-blue-600 hover:underline"
+                >
+                  {productNames[row.key] || row.key}
+                </Link>
+              ),
+            }))}
+          />
+          <ConversionTable
+            title="Conversion by Category"
+            labelHeader="Category"
+            rows={categoryConversion.map((row: ConversionRow) => ({
+              ...row,
+              label: row.key || UNCATEGORIZED_LABEL,
+            }))}
+          />
+        </div>
+
+        <ShopperAnalytics stats={shopperStats} topShoppers={topShoppers} />
+
+        {/* Generation and Billing History */}
+        <div className="mb-4">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+            History
+          </h2>
+          <DateRangeFilter
+            dateFilter={history.dateFilter}
+            customStart={history.customStart}
+            customEnd={history.customEnd}
+            timezone={history.timezone}
+          />
+        </div>
+
         <div className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700 mb-8">
-          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
             <h2 className="text-lg font-medium text-gray-900 dark:text-white">
-              Recent Billing Transactions ({shop.BillingLog.length} total)
+              Generations ({generations.total} found)
             </h2>
+            <ExportLinks
+              href={`/export/shop/${shop.id}/generations`}
+              params={searchParams}
+            />
           </div>
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
-              <thead className="bg-gray-50 dark:bg-gray-700">
-                <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Event Type
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Credits
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Price
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Charge ID
-                  </th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Timestamp
-                  </th>
-                </tr>
-              </thead>
-              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                {recentBillingLogs.map((log: any) => (
-                  <tr
-                    key={log.id}
-                    className="hover:bg-gray-50 dark:hover:bg-gray-700"
-                  >
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-                        {log.eventType}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                      {log.credits}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                      ${log.price.toFixed(2)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      {log.chargeId || "N/A"}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      {new Date(log.timestamp).toLocaleDateString()}
-                    </td>
-                  </tr>
+          <Form
+            method="get"
+            key={searchParams.toString()}
+            className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 grid grid-cols-1 md:grid-cols-5 gap-3 items-end"
+          >
+            {["dateFilter", "start", "end", "tz", "includeTest"].map((name) => {
+              const value = searchParams.get(name);
+              return value ? (
+                <input key={name} type="hidden" name={name} value={value} />
+              ) : null;
+            })}
+            <label className="text-xs font-medium text-gray-500 dark:text-gray-400">
+              Product
+              <input
+                type="search"
+                name="product"
+                defaultValue={generationFilters.product}
+                placeholder="Name or ID"
+                className={filterInputClassName}
+              />
+            </label>
+            <label className="text-xs font-medium text-gray-500 dark:text-gray-400">
+              Category
+              <select
+                name="category"
+                defaultValue={generationFilters.category}
+                className={filterInputClassName}
+              >
+                <option value="">All categories</option>
+                {categoryOptions.map((name: string) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
                 ))}
-              </tbody>
-            </table>
-          </div>
+                <option value={UNCATEGORIZED}>{UNCATEGORIZED_LABEL}</option>
+              </select>
+            </label>
+            <label className="text-xs font-medium text-gray-500 dark:text-gray-400">
+              Added to Cart
+              <select
+                name="addedToCart"
+                defaultValue={generationFilters.addedToCart}
+                className={filterInputClassName}
+              >
+                <option value="all">All</option>
+                <option value="yes">Yes</option>
+                <option value="no">No</option>
+              </select>
+            </label>
+            {permissions.canViewShopperEmails && (
+              <label className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                Shopper Email
+                <input
+                  type="search"
+                  name="userEmail"
+                  defaultValue={generationFilters.userEmail}
+                  className={filterInputClassName}
+                />
+              </label>
+            )}
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+              >
+                Apply
+              </button>
+              <Link
+                to={`/shop/${shop.id}`}
+                className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded"
+              >
+                Reset
+              </Link>
+            </div>
+          </Form>
+          {generations.rows.length === 0 ? (
+            <p className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+              No generations match these filters
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Product
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      User Email
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Category
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Added to Cart
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                      Created
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                  {generations.rows.map((generation: ShopGeneration) => (
+                    <tr
+                      key={generation.id}
+                      className="hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          {generation.productImage && (
+                            <img
+                              className="h-10 w-10 rounded-full object-cover mr-3"
+                              src={generation.productImage}
+                              alt={generation.productName}
+                            />
+                          )}
+                          <div>
+                            <div className="text-sm font-medium text-gray-900 dark:text-white">
+                              {generation.productName || "Unnamed Product"}
+                            </div>
+                            <div className="text-sm text-gray-500 dark:text-gray-400">
+                              ID: {generation.productId}
+                            </div>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {generation.userEmail}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {generation.productCategory || "N/A"}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                            generation.addedToCart
+                              ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                              : "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
+                          }`}
+                        >
+                          {generation.addedToCart ? "Yes" : "No"}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {new Date(generation.createdAt).toLocaleDateString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <HistoryPager
+            param="generationsPage"
+            page={generations.page}
+            totalPages={generations.totalPages}
+          />
         </div>
 
+        {permissions.canViewBilling && (
+          <div className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700 mb-8">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+              <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+                Billing Transactions ({billing.total} found)
+              </h2>
+              <ExportLinks
+                href={`/export/shop/${shop.id}/billing`}
+                params={searchParams}
+              />
+            </div>
+            {billing.rows.length === 0 ? (
+              <p className="px-6 py-8 text-center text-gray-500 dark:text-gray-400">
+                No billing transactions in this range
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Event Type
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Credits
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Price
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Charge ID
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Timestamp
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {billing.rows.map((log: ShopBillingLog) => (
+                      <tr
+                        key={log.id}
+                        className="hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                            {log.eventType}
+                          </span>
+                          {log.isTest && <TestChargeBadge />}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                          {log.credits}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                          ${log.price.toFixed(2)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {log.chargeId || "N/A"}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {new Date(log.timestamp).toLocaleDateString()}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <HistoryPager
+              param="billingPage"
+              page={billing.page}
+              totalPages={billing.totalPages}
+            />
+          </div>
+        )}
+
         {/* Recent API Logs */}
         {shop.Log.length > 0 && (
           <div className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700">
-            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
               <h2 className="text-lg font-medium text-gray-900 dark:text-white">
                 Recent API Logs ({shop.Log.length} total)
               </h2>
+              <div className="flex items-center gap-4">
+                <Link
+                  to={`/logs?shop=${shop.id}`}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  Explore all logs
+                </Link>
+                <ExportLinks href={`/export/shop/${shop.id}/logs`} />
+              </div>
             </div>
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
@@ -628,7 +1256,7 @@ export default function ShopDetails() {
                   </tr>
                 </thead>
                 <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                  {shop.Log.slice(0, 20).map((log: any) => (
+                  {shop.Log.slice(0, 20).map((log: ShopLog) => (
                     <tr
                       key={log.id}
                       className="hover:bg-gray-50 dark:hover:bg-gray-700"
@@ -637,30 +1265,10 @@ export default function ShopDetails() {
                         <div className="max-w-xs truncate">{log.endpoint}</div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span
-                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                            log.method === "GET"
-                              ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
-                              : log.method === "POST"
-                              ? "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
-                              : "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
-                          }`}
-                        >
-                          {log.method}
-                        </span>
+                        <MethodBadge method={log.method} />
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span
-                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                            log.status >= 200 && log.status < 300
-                              ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
-                              : log.status >= 400 && log.status < 500
-                              ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
-                              : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
-                          }`}
-                        >
-                          {log.status}
-                        </span>
+                        <StatusBadge status={log.status} />
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                         {new Date(log.createdAt).toLocaleDateString()}
@@ -676,3 +1284,55 @@ export default function ShopDetails() {
     </div>
   );
 }
+
+// Previous/next links for one history table, keeping every other param
+function HistoryPager({
+  param,
+  page,
+  totalPages,
+}: {
+  param: string;
+  page: number;
+  totalPages: number;
+}) {
+  const [searchParams] = useSearchParams();
+  if (totalPages <= 1) return null;
+
+  const linkTo = (target: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set(param, String(target));
+    return `?${params}`;
+  };
+  const linkClassName =
+    "px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded";
+
+  return (
+    <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between text-sm">
+      {page > 1 ? (
+        <Link
+          to={linkTo(page - 1)}
+          preventScrollReset
+          className={linkClassName}
+        >
+          Previous
+        </Link>
+      ) : (
+        <span />
+      )}
+      <span className="text-gray-600 dark:text-gray-300">
+        Page {page} of {totalPages}
+      </span>
+      {page < totalPages ? (
+        <Link
+          to={linkTo(page + 1)}
+          preventScrollReset
+          className={linkClassName}
+        >
+          Next
+        </Link>
+      ) : (
+        <span />
+      )}
+    </div>
+  );
+}
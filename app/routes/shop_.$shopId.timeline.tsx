@@ -0,0 +1,315 @@
+import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
+import {
+  Form,
+  Link,
+  useFetcher,
+  useLoaderData,
+  useSearchParams,
+} from "@remix-run/react";
+import { useEffect, useRef, useState } from "react";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { can } from "~/utils/roles";
+import { recordView } from "~/utils/audit.server";
+import {
+  getShopTimeline,
+  parseTimelineCursor,
+  type TimelineEvent,
+} from "~/utils/timeline.server";
+import {
+  TIMELINE_TYPES,
+  TIMELINE_TYPE_LABELS,
+  isTimelineType,
+  type TimelineType,
+} from "~/utils/timeline";
+import { ProductThumbnail } from "~/components/ProductThumbnail";
+import { MethodBadge, StatusBadge } from "~/components/LogBadges";
+import { TestChargeBadge } from "~/components/TestChargeBadge";
+
+type TimelineRow = TimelineEvent extends infer E
+  ? E extends TimelineEvent
+    ? Omit<E, "at"> & { at: string }
+    : never
+  : never;
+
+type TimelinePage = { events: TimelineRow[]; nextCursor: string | null };
+
+const TYPE_BADGE_CLASSNAMES: Record<TimelineType, string> = {
+  lifecycle:
+    "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  billing: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  webhook:
+    "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  log: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200",
+  generation: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+};
+
+const LIFECYCLE_LABELS = {
+  install: "Installed the app",
+  uninstall: "Uninstalled the app",
+  "plan-reset": "Plan usage reset",
+};
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [
+    {
+      title: data?.shop
+        ? `Fitsee Dashboard - ${data.shop.domain} Timeline`
+        : "Shop Not Found",
+    },
+  ];
+};
+
+export const loader: LoaderFunction = async ({ request, params }) => {
+  const user = await requireUser(request);
+  const { shopId } = params;
+
+  if (!shopId) {
+    throw new Response("Shop ID is required", { status: 400 });
+  }
+
+  const shop = await prisma.shop.findUnique({
+    where: { id: shopId },
+    select: {
+      id: true,
+      domain: true,
+      createdAt: true,
+      updatedAt: true,
+      isUninstalled: true,
+      allowTestPayment: true,
+      Plan: { select: { name: true, lastResetAt: true } },
+    },
+  });
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  // Billing events need billing access; API logs and webhooks need log access
+  const availableTypes = TIMELINE_TYPES.filter(
+    (type) =>
+      (type !== "billing" || can(user.role, "billing:view")) &&
+      ((type !== "log" && type !== "webhook") || can(user.role, "logs:view"))
+  );
+
+  const url = new URL(request.url);
+  const requested = url.searchParams
+    .getAll("type")
+    .filter(isTimelineType)
+    .filter((type) => availableTypes.includes(type));
+  const types = requested.length > 0 ? requested : availableTypes;
+  const cursor = parseTimelineCursor(url.searchParams.get("cursor"));
+
+  if (!cursor) {
+    await recordView(user, {
+      action: "shop.timeline-view",
+      shopId,
+      targetType: "Shop",
+      targetId: shopId,
+    });
+  }
+
+  const timeline = await getShopTimeline(shop, {
+    types,
+    cursor,
+    revealEmails: can(user.role, "shoppers:pii"),
+  });
+
+  return json({
+    shop: { id: shop.id, domain: shop.domain },
+    availableTypes,
+    types,
+    ...timeline,
+  });
+};
+
+function EventDetails({ event }: { event: TimelineRow }) {
+  switch (event.type) {
+    case "lifecycle":
+      return (
+        <div>
+          <div className="font-medium text-gray-900 dark:text-white">
+            {LIFECYCLE_LABELS[event.event]}
+          </div>
+          {event.detail && (
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {event.detail}
+            </div>
+          )}
+        </div>
+      );
+    case "billing":
+      return (
+        <div className="text-gray-900 dark:text-white">
+          <span className="font-medium">{event.eventType}</span> · $
+          {event.price.toFixed(2)} · {event.credits} credits
+          {event.isTest && <TestChargeBadge />}
+        </div>
+      );
+    case "webhook":
+      return (
+        <div className="font-mono text-gray-900 dark:text-white">
+          {event.topic}
+        </div>
+      );
+    case "log":
+      return (
+        <div className="flex items-center gap-2">
+          <MethodBadge method={event.method} />
+          <Link
+            to={`/logs?selected=${event.id}`}
+            className="font-mono text-blue-600 hover:underline dark:text-blue-400"
+          >
+            {event.endpoint}
+          </Link>
+          <StatusBadge status={event.status} />
+        </div>
+      );
+    case "generation":
+      return (
+        <div className="flex items-center gap-3">
+          <ProductThumbnail src={event.productImage} alt={event.productName} />
+          <div>
+            <Link
+              to={`/products/${encodeURIComponent(event.productId)}`}
+              className="font-medium text-blue-600 hover:underline dark:text-blue-400"
+            >
+              {event.productName || "Unnamed Product"}
+            </Link>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {event.userEmail}
+              {event.addedToCart && " · added to cart"}
+            </div>
+          </div>
+        </div>
+      );
+  }
+}
+
+export default function ShopTimeline() {
+  const data = useLoaderData<typeof loader>();
+  const { shop, availableTypes, types } = data;
+  const [searchParams] = useSearchParams();
+  const fetcher = useFetcher<TimelinePage>();
+
+  // Pages loaded so far; a new filter starts over from the loader's page
+  const [events, setEvents] = useState<TimelineRow[]>(data.events);
+  const [nextCursor, setNextCursor] = useState<string | null>(data.nextCursor);
+  useEffect(() => {
+    setEvents(data.events);
+    setNextCursor(data.nextCursor);
+  }, [data]);
+  useEffect(() => {
+    if (!fetcher.data) return;
+    const page = fetcher.data;
+    setEvents((loaded) => [...loaded, ...page.events]);
+    setNextCursor(page.nextCursor);
+  }, [fetcher.data]);
+
+  // Load the next page once the end of the list scrolls into view. The
+  // requested cursor is remembered so a page is not fetched twice while its
+  // events are being appended.
+  const sentinel = useRef<HTMLDivElement>(null);
+  const requestedCursor = useRef<string | null>(null);
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element || !nextCursor || fetcher.state !== "idle") return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && requestedCursor.current !== nextCursor) {
+        requestedCursor.current = nextCursor;
+        const params = new URLSearchParams(searchParams);
+        params.set("cursor", nextCursor);
+        fetcher.load(`/shop/${shop.id}/timeline?${params}`);
+      }
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [nextCursor, fetcher, searchParams, shop.id]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-4xl mx-auto">
+        <Link
+          to={`/shop/${shop.id}`}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 mb-2 inline-block"
+        >
+          ← Back to Shop
+        </Link>
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          Activity Timeline
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          Everything that happened to {shop.domain}, newest first.
+        </p>
+
+        <Form
+          method="get"
+          key={searchParams.toString()}
+          className="bg-white dark:bg-gray-800 rounded shadow p-4 mb-6 flex flex-wrap items-center gap-4"
+        >
+          {availableTypes.map((type: TimelineType) => (
+            <label
+              key={type}
+              className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+            >
+              <input
+                type="checkbox"
+                name="type"
+                value={type}
+                defaultChecked={types.includes(type)}
+              />
+              {TIMELINE_TYPE_LABELS[type]}
+            </label>
+          ))}
+          <button
+            type="submit"
+            className="ml-auto px-4 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+          >
+            Apply
+          </button>
+        </Form>
+
+        <div className="bg-white dark:bg-gray-800 rounded shadow">
+          {events.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              No activity of the selected types
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {events.map((event) => (
+                <li
+                  key={`${event.type}-${event.id}`}
+                  className="flex items-start gap-4 px-4 py-3 text-sm"
+                >
+                  <time
+                    dateTime={event.at}
+                    className="w-44 flex-shrink-0 text-gray-500 dark:text-gray-400"
+                  >
+                    {new Date(event.at).toLocaleString()}
+                  </time>
+                  <span
+                    className={`w-28 flex-shrink-0 text-center px-2 py-1 text-xs font-semibold rounded-full ${
+                      TYPE_BADGE_CLASSNAMES[event.type]
+                    }`}
+                  >
+                    {TIMELINE_TYPE_LABELS[event.type]}
+                  </span>
+                  <EventDetails event={event} />
+                </li>
+              ))}
+            </ul>
+          )}
+          <div
+            ref={sentinel}
+            className="p-4 text-center text-sm text-gray-500 dark:text-gray-400"
+          >
+            {fetcher.state !== "idle"
+              ? "Loading more…"
+              : nextCursor
+              ? ""
+              : events.length > 0 && "Beginning of this shop's history"}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,49 +1,95 @@
-import { json, type LoaderFunction } from "@remix-run/node";
-import { useLoaderData, Link, useSearchParams } from "@remix-run/react";
+import { json, type LoaderFunction, type SerializeFrom } from "@remix-run/node";
+import { useLoaderData, Link, useSearchParams, Form } from "@remix-run/react";
 import { prisma } from "~/utils/db.server";
-import type {
-  Shop,
-  Generation,
-  BillingLog,
-  Plan,
-  Session,
-} from "@prisma/client";
+import { requireUser } from "~/utils/auth.server";
+import {
+  buildShopWhere,
+  findSortedShopIds,
+  parseShopFilters,
+} from "~/utils/shopFilters.server";
+import { ExportLinks } from "~/components/ExportLinks";
+import { DateRangeFilter } from "~/components/DateRangeFilter";
+import { can } from "~/utils/roles";
+import { getShopStats, type ShopStats } from "~/utils/shopStats.server";
+import type { Shop, Plan } from "@prisma/client";
+
+type SerializedShopStats = SerializeFrom<ShopStats>;
 
 const PAGE_SIZE = 20;
 
+const inputClassName =
+  "mt-1 w-full rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm";
+
 export const loader: LoaderFunction = async ({ request }) => {
+  const user = await requireUser(request);
+  const canViewBilling = can(user.role, "billing:view");
+  const canViewPii = can(user.role, "shops:pii");
+
   const url = new URL(request.url);
-  const page = parseInt(url.searchParams.get("page") || "1", 10);
+  const page = Math.max(parseInt(url.searchParams.get("page") || "1", 10), 1);
   const skip = (page - 1) * PAGE_SIZE;
 
-  const [shops, totalShops] = await Promise.all([
+  const filters = parseShopFilters(url.searchParams);
+  // Revenue is hidden from roles without billing access, so is sorting by it
+  if (filters.sort === "revenue" && !canViewBilling) {
+    filters.sort = "created";
+  }
+  const where = buildShopWhere(filters, { canSearchPii: canViewPii });
+
+  const [shopIds, totalShops, planNames] = await Promise.all([
+    findSortedShopIds(where, filters, { skip, take: PAGE_SIZE }),
+    prisma.shop.count({ where }),
+    prisma.plan.findMany({
+      select: { name: true },
+      distinct: ["name"],
+      orderBy: { name: "asc" },
+    }),
+  ]);
+
+  const [shopRecords, statsById] = await Promise.all([
     prisma.shop.findMany({
-      include: {
-        Generation: true,
-        BillingLog: true,
-        Plan: true,
-        Session: true,
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-      skip,
-      take: PAGE_SIZE,
+      where: { id: { in: shopIds } },
+      omit: { apiKey: true },
+      include: { Plan: true },
+    }),
+    getShopStats(shopIds, {
+      includeBilling: canViewBilling,
+      includeTestCharges: filters.includeTest,
     }),
-    prisma.shop.count(),
   ]);
+  const shopById = new Map(shopRecords.map((shop) => [shop.id, shop]));
+  const shops = shopIds.flatMap((id) => {
+    const shop = shopById.get(id);
+    if (!shop) return [];
+    return {
+      ...shop,
+      email: canViewPii ? shop.email : null,
+      phone: canViewPii ? shop.phone : null,
+      stats: statsById[shop.id],
+    };
+  });
 
   return json({
     shops,
+    canViewBilling,
     totalShops,
+    filters,
+    planNames: planNames.map((plan) => plan.name),
     page,
-    totalPages: Math.ceil(totalShops / PAGE_SIZE),
+    totalPages: Math.max(Math.ceil(totalShops / PAGE_SIZE), 1),
   });
 };
 
 export default function ShopsPage() {
-  const { shops, totalShops, page, totalPages } =
-    useLoaderData<typeof loader>();
+  const {
+    shops,
+    canViewBilling,
+    totalShops,
+    filters,
+    planNames,
+    page,
+    totalPages,
+  } = useLoaderData<typeof loader>();
   const [searchParams, setSearchParams] = useSearchParams();
 
   const goToPage = (newPage: number) => {
@@ -60,16 +106,145 @@ export default function ShopsPage() {
             All Shops
           </h1>
           <p className="mt-2 text-gray-600 dark:text-gray-300">
-            Detailed list of all shops with pagination
+            Search, filter and sort all shops
           </p>
         </div>
       </div>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Install Date */}
+        <DateRangeFilter
+          dateFilter={filters.installed.dateFilter}
+          customStart={filters.installed.customStart}
+          customEnd={filters.installed.customEnd}
+          timezone={filters.installed.timezone}
+        >
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Filters by install date
+          </span>
+        </DateRangeFilter>
+
+        {/* Query Bar */}
+        <Form
+          method="get"
+          key={searchParams.toString()}
+          className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700 p-4 mb-6 grid grid-cols-1 md:grid-cols-4 gap-3 items-end"
+        >
+          {["dateFilter", "start", "end", "tz"].map((name) => {
+            const value = searchParams.get(name);
+            return value ? (
+              <input key={name} type="hidden" name={name} value={value} />
+            ) : null;
+          })}
+          <label className="md:col-span-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+            Search
+            <input
+              type="search"
+              name="q"
+              defaultValue={filters.q}
+              placeholder="Domain, email, Shopify ID or country"
+              className={inputClassName}
+            />
+          </label>
+          <label className="text-xs font-medium text-gray-500 dark:text-gray-400">
+            Status
+            <select
+              name="status"
+              defaultValue={filters.status}
+              className={inputClassName}
+            >
+              <option value="all">All</option>
+              <option value="active">Active</option>
+              <option value="uninstalled">Uninstalled</option>
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-500 dark:text-gray-400">
+            Plan
+            <select
+              name="plan"
+              defaultValue={filters.plan}
+              className={inputClassName}
+            >
+              <option value="">Any plan</option>
+              <option value="none">No plan</option>
+              {planNames.map((name: string) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-500 dark:text-gray-400">
+            Test Payments
+            <select
+              name="testPayment"
+              defaultValue={filters.testPayment}
+              className={inputClassName}
+            >
+              <option value="all">All</option>
+              <option value="yes">Allowed</option>
+              <option value="no">Not allowed</option>
+            </select>
+          </label>
+          <div className="flex gap-2">
+            <label className="flex-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+              Sort By
+              <select
+                name="sort"
+                defaultValue={filters.sort}
+                className={inputClassName}
+              >
+                <option value="created">Created</option>
+                <option value="generations">Generations</option>
+                {canViewBilling && <option value="revenue">Revenue</option>}
+                <option value="activity">Last Activity</option>
+              </select>
+            </label>
+            <label className="text-xs font-medium text-gray-500 dark:text-gray-400">
+              Order
+              <select
+                name="dir"
+                defaultValue={filters.dir}
+                className={inputClassName}
+              >
+                <option value="desc">Desc</option>
+                <option value="asc">Asc</option>
+              </select>
+            </label>
+          </div>
+          <div className="md:col-span-4 flex items-center justify-end gap-2">
+            {canViewBilling && (
+              <label className="mr-auto inline-flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  name="includeTest"
+                  value="1"
+                  defaultChecked={filters.includeTest}
+                  className="rounded border-gray-300"
+                />
+                Include test charges in revenue
+              </label>
+            )}
+            <Link
+              to="/shops"
+              className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded"
+            >
+              Reset
+            </Link>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600"
+            >
+              Apply
+            </button>
+          </div>
+        </Form>
+
         <div className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700">
-          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
             <h2 className="text-lg font-medium text-gray-900 dark:text-white">
-              Shops (Page {page} of {totalPages})
+              Shops ({totalShops} found, page {page} of {totalPages})
             </h2>
+            <ExportLinks href="/export/shops" params={searchParams} />
           </div>
           {shops.length === 0 ? (
             <div className="text-center py-12">
@@ -94,9 +269,11 @@ export default function ShopsPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       Generations
                     </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                      Revenue
-                    </th>
+                    {canViewBilling && (
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                        Revenue
+                      </th>
+                    )}
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                       Created
                     </th>
@@ -109,20 +286,10 @@ export default function ShopsPage() {
                   {shops.map(
                     (
                       shop: Shop & {
-                        Generation: Generation[];
-                        BillingLog: BillingLog[];
                         Plan: Plan | null;
-                        Session: Session | null;
+                        stats: SerializedShopStats;
                       }
                     ) => {
-                      const shopRevenue = shop.BillingLog.reduce(
-                        (sum: number, log: BillingLog) => {
-                          const transactionFee = log.price * 0.029;
-                          return sum + (log.price - transactionFee);
-                        },
-                        0
-                      );
-                      const generationsCount = shop.Generation.length;
                       return (
                         <tr
                           key={shop.id}
@@ -173,22 +340,32 @@ export default function ShopsPage() {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
                             <div className="font-medium">
-                              {generationsCount}
+                              {shop.stats.generations}
                             </div>
+                            {shop.stats.lastActivityAt && (
+                              <div className="text-xs text-gray-400 dark:text-gray-500">
+                                Last{" "}
+                                {new Date(
+                                  shop.stats.lastActivityAt
+                                ).toLocaleDateString()}
+                              </div>
+                            )}
                             {shop.Plan && (
                               <div className="text-gray-500 dark:text-gray-400">
                                 {shop.Plan.totalGenerationsUsed} used
                               </div>
                             )}
                           </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                            <div className="font-medium">
-                              ${shopRevenue.toFixed(2)}
-                            </div>
-                            <div className="text-gray-500 dark:text-gray-400">
-                              {shop.BillingLog.length} transactions
-                            </div>
-                          </td>
+                          {canViewBilling && (
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                              <div className="font-medium">
+                                ${(shop.stats.revenue ?? 0).toFixed(2)}
+                              </div>
+                              <div className="text-gray-500 dark:text-gray-400">
+                                {shop.stats.transactions ?? 0} transactions
+                              </div>
+                            </td>
+                          )}
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                             {new Date(shop.createdAt).toLocaleDateString()}
                           </td>
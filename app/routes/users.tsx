@@ -0,0 +1,342 @@
+import {
+  json,
+  type ActionFunction,
+  type LoaderFunction,
+  type MetaFunction,
+} from "@remix-run/node";
+import { Form, useActionData, useLoaderData } from "@remix-run/react";
+import type { AdminRole, AdminUser } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import { hashPassword, requireUser } from "~/utils/auth.server";
+import { recordAudit } from "~/utils/audit.server";
+import { ROLE_LABELS } from "~/utils/roles";
+
+const ROLES = Object.keys(ROLE_LABELS) as AdminRole[];
+
+type UserRow = Pick<
+  AdminUser,
+  "id" | "email" | "name" | "role" | "isDisabled"
+> & { lastLoginAt: string | null };
+
+const isRole = (value: FormDataEntryValue | null): value is AdminRole =>
+  typeof value === "string" && ROLES.includes(value as AdminRole);
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Users" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  const currentUser = await requireUser(request, "users:manage");
+
+  const users = await prisma.adminUser.findMany({
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      isDisabled: true,
+      lastLoginAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return json({ users, currentUserId: currentUser.id });
+};
+
+export const action: ActionFunction = async ({ request }) => {
+  const currentUser = await requireUser(request, "users:manage");
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "create") {
+    const email = String(formData.get("email") || "")
+      .trim()
+      .toLowerCase();
+    const password = String(formData.get("password") || "");
+    const role = formData.get("role");
+
+    if (!email || !isRole(role)) {
+      return json({ error: "Email and role are required" }, { status: 400 });
+    }
+    if (password.length < 12) {
+      return json(
+        { error: "Password must be at least 12 characters" },
+        { status: 400 }
+      );
+    }
+    if (await prisma.adminUser.findUnique({ where: { email } })) {
+      return json(
+        { error: `${email} already has an account` },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.adminUser.create({
+      data: {
+        email,
+        name: String(formData.get("name") || ""),
+        passwordHash: await hashPassword(password),
+        role,
+      },
+    });
+    await recordAudit(currentUser, {
+      action: "user.create",
+      targetType: "AdminUser",
+      targetId: user.id,
+      after: { email, role },
+    });
+    return json({ error: null });
+  }
+
+  const userId = String(formData.get("userId") || "");
+  if (!userId) {
+    return json({ error: "User ID is required" }, { status: 400 });
+  }
+  // Keep at least one admin able to get back in.
+  if (userId === currentUser.id) {
+    return json(
+      { error: "You cannot change your own account" },
+      { status: 400 }
+    );
+  }
+
+  if (intent === "role") {
+    const role = formData.get("role");
+    if (!isRole(role)) {
+      return json({ error: "Unknown role" }, { status: 400 });
+    }
+    const user = await prisma.adminUser.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new Response("User not found", { status: 404 });
+    }
+    await prisma.adminUser.update({ where: { id: userId }, data: { role } });
+    await recordAudit(currentUser, {
+      action: "user.role",
+      targetType: "AdminUser",
+      targetId: userId,
+      before: { email: user.email, role: user.role },
+      after: { email: user.email, role },
+    });
+    return json({ error: null });
+  }
+
+  if (intent === "toggle-disabled") {
+    const user = await prisma.adminUser.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new Response("User not found", { status: 404 });
+    }
+    await prisma.adminUser.update({
+      where: { id: userId },
+      data: { isDisabled: !user.isDisabled },
+    });
+    await recordAudit(currentUser, {
+      action: "user.toggle-disabled",
+      targetType: "AdminUser",
+      targetId: userId,
+      before: { email: user.email, isDisabled: user.isDisabled },
+      after: { email: user.email, isDisabled: !user.isDisabled },
+    });
+    return json({ error: null });
+  }
+
+  return json({ error: "Unknown action" }, { status: 400 });
+};
+
+export default function UsersPage() {
+  const { users, currentUserId } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Dashboard Users
+          </h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-300">
+            Manage who can sign in and what they can see
+          </p>
+        </div>
+      </div>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {actionData?.error && (
+          <div className="mb-6 rounded border border-red-200 bg-red-50 dark:bg-red-900 dark:border-red-800 px-4 py-3 text-sm text-red-800 dark:text-red-200">
+            {actionData.error}
+          </div>
+        )}
+
+        {/* New User */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700 mb-8">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+              Add User
+            </h2>
+          </div>
+          <Form
+            method="post"
+            className="p-6 grid grid-cols-1 md:grid-cols-5 gap-3 items-end"
+          >
+            <input type="hidden" name="intent" value="create" />
+            <input
+              type="email"
+              name="email"
+              placeholder="Email"
+              aria-label="Email"
+              required
+              className="rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm"
+            />
+            <input
+              type="text"
+              name="name"
+              placeholder="Name"
+              aria-label="Name"
+              className="rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm"
+            />
+            <input
+              type="password"
+              name="password"
+              placeholder="Temporary password"
+              aria-label="Temporary password"
+              autoComplete="new-password"
+              required
+              className="rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm"
+            />
+            <select
+              name="role"
+              aria-label="Role"
+              defaultValue="VIEWER"
+              className="rounded border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white px-3 py-2 text-sm"
+            >
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-sm"
+            >
+              Add User
+            </button>
+          </Form>
+        </div>
+
+        {/* Users Table */}
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Last Login
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {users.map((user: UserRow) => {
+                  const isSelf = user.id === currentUserId;
+                  return (
+                    <tr
+                      key={user.id}
+                      className="hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                          {user.email}
+                        </div>
+                        <div className="text-sm text-gray-500 dark:text-gray-400">
+                          {user.name || "No name"}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {isSelf ? (
+                          <span className="text-gray-900 dark:text-white">
+                            {ROLE_LABELS[user.role]}
+                          </span>
+                        ) : (
+                          <Form method="post" className="flex gap-2">
+                            <input type="hidden" name="intent" value="role" />
+                            <input
+                              type="hidden"
+                              name="userId"
+                              value={user.id}
+                            />
+                            <select
+                              name="role"
+                              aria-label={`Role for ${user.email}`}
+                              defaultValue={user.role}
+                              className="text-xs rounded border-gray-300 dark:bg-gray-700 dark:text-gray-200"
+                            >
+                              {ROLES.map((role) => (
+                                <option key={role} value={role}>
+                                  {ROLE_LABELS[role]}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              type="submit"
+                              className="text-xs text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                            >
+                              Save
+                            </button>
+                          </Form>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {user.lastLoginAt
+                          ? new Date(user.lastLoginAt).toLocaleString()
+                          : "Never"}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                            user.isDisabled
+                              ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                              : "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                          }`}
+                        >
+                          {user.isDisabled ? "Disabled" : "Active"}
+                        </span>
+                        {!isSelf && (
+                          <Form method="post" className="inline ml-3">
+                            <input
+                              type="hidden"
+                              name="intent"
+                              value="toggle-disabled"
+                            />
+                            <input
+                              type="hidden"
+                              name="userId"
+                              value={user.id}
+                            />
+                            <button
+                              type="submit"
+                              className="text-xs text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                            >
+                              {user.isDisabled ? "Enable" : "Disable"}
+                            </button>
+                          </Form>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
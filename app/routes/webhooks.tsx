@@ -0,0 +1,420 @@
+import { json, type LoaderFunction, type MetaFunction } from "@remix-run/node";
+import { useLoaderData, Link, useSearchParams } from "@remix-run/react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import { prisma } from "~/utils/db.server";
+import { requireUser } from "~/utils/auth.server";
+import { getDateRangeFilter } from "~/utils/dateFilters.server";
+import {
+  getStaleTopics,
+  getUninstallMismatches,
+  getWebhooksBy,
+  getWebhookTimeline,
+  type StaleTopic,
+  type UninstallMismatch,
+  type WebhookRow,
+} from "~/utils/webhooks.server";
+import { DateRangeFilter } from "~/components/DateRangeFilter";
+import { StatCard } from "~/components/StatCard";
+
+const CHART_TOPIC_LIMIT = 6;
+const DOMAIN_LIMIT = 25;
+const SERIES_COLORS = [
+  "#2563eb",
+  "#16a34a",
+  "#f59e0b",
+  "#dc2626",
+  "#9333ea",
+  "#0891b2",
+];
+
+type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date
+    ? string
+    : T[K] extends Date | null
+    ? string | null
+    : T[K];
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Fitsee Dashboard - Webhooks" }];
+};
+
+export const loader: LoaderFunction = async ({ request }) => {
+  await requireUser(request, "logs:view");
+
+  const url = new URL(request.url);
+  const { dateFilter, customStart, customEnd, timezone, range, previous } =
+    getDateRangeFilter(url.searchParams, "7days");
+  const topic = url.searchParams.get("topic") || "";
+  const domain = url.searchParams.get("domain") || "";
+
+  const dateCondition = range ? { receivedAt: range } : {};
+  const topicCondition = topic ? { topic } : {};
+  const domainCondition = domain ? { shopDomain: domain } : {};
+
+  // Each table ignores its own focus filter so the other rows stay visible
+  const [byTopic, byDomain, staleTopics, mismatches, previousByTopic] =
+    await Promise.all([
+      getWebhooksBy("topic", { ...dateCondition, ...domainCondition }),
+      getWebhooksBy(
+        "shopDomain",
+        { ...dateCondition, ...topicCondition },
+        { take: DOMAIN_LIMIT }
+      ),
+      getStaleTopics(),
+      getUninstallMismatches(),
+      previous
+        ? getWebhooksBy("topic", { receivedAt: previous, ...domainCondition })
+        : null,
+    ]);
+  const countOf = (rows: WebhookRow[]) =>
+    rows.reduce((sum, row) => sum + row.count, 0);
+
+  const chartTopics = topic
+    ? [topic]
+    : byTopic.slice(0, CHART_TOPIC_LIMIT).map((row) => row.key);
+  const timeline = await getWebhookTimeline(
+    { range, shopDomain: domain },
+    chartTopics,
+    timezone
+  );
+
+  const shops = await prisma.shop.findMany({
+    where: { domain: { in: [...byDomain.map((row) => row.key), domain] } },
+    select: { id: true, domain: true, isUninstalled: true },
+  });
+
+  return json({
+    byTopic,
+    byDomain,
+    chartTopics,
+    timeline,
+    staleTopics,
+    mismatches,
+    shopsByDomain: Object.fromEntries(shops.map((shop) => [shop.domain, shop])),
+    total: countOf(byTopic),
+    previousTotals: previousByTopic && {
+      total: countOf(previousByTopic),
+      topics: previousByTopic.length,
+    },
+    topic,
+    domain,
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+  });
+};
+
+const formatTime = (date: string | null) =>
+  date ? new Date(date).toLocaleString() : "—";
+
+export default function WebhooksPage() {
+  const {
+    byTopic,
+    byDomain,
+    chartTopics,
+    timeline,
+    staleTopics,
+    mismatches,
+    shopsByDomain,
+    total,
+    previousTotals,
+    topic,
+    domain,
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+  } = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+
+  const withParams = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === null) params.delete(key);
+      else params.set(key, value);
+    });
+    return `?${params}`;
+  };
+
+  const staleTopicNames = new Set(
+    staleTopics.map((row: Serialized<StaleTopic>) => row.topic)
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-6">
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-gray-900 dark:text-white">
+          Webhooks
+        </h1>
+        <p className="mb-6 text-gray-600 dark:text-gray-300">
+          Processed Shopify webhooks by topic and shop domain.
+        </p>
+
+        <DateRangeFilter
+          dateFilter={dateFilter}
+          customStart={customStart}
+          customEnd={customEnd}
+          timezone={timezone}
+        >
+          {topic && (
+            <Link
+              to={withParams({ topic: null })}
+              className="text-xs rounded-full px-3 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+            >
+              {topic} ✕
+            </Link>
+          )}
+          {domain && (
+            <Link
+              to={withParams({ domain: null })}
+              className="text-xs rounded-full px-3 py-1 bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+            >
+              {domain} ✕
+            </Link>
+          )}
+        </DateRangeFilter>
+
+        {/* Key Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+          <StatCard
+            label="Webhooks"
+            value={total}
+            current={total}
+            previous={previousTotals?.total}
+          />
+          <StatCard
+            label="Topics"
+            value={byTopic.length}
+            current={byTopic.length}
+            previous={previousTotals?.topics}
+          />
+          <StatCard label="Stopped Topics" value={staleTopics.length} />
+        </div>
+
+        {/* Stopped Topics */}
+        {staleTopics.length > 0 && (
+          <div className="mb-8 rounded border border-red-200 bg-red-50 dark:bg-red-900 dark:border-red-800 px-4 py-3 text-sm text-red-800 dark:text-red-200">
+            <div className="font-semibold mb-1">
+              Topics that stopped arriving
+            </div>
+            <ul className="space-y-1">
+              {staleTopics.map((row: Serialized<StaleTopic>) => (
+                <li key={row.topic}>
+                  <Link
+                    to={withParams({ topic: row.topic })}
+                    className="font-mono underline"
+                  >
+                    {row.topic}
+                  </Link>{" "}
+                  last received {formatTime(row.lastReceivedAt)}
+                  {row.expectedEveryHours !== null &&
+                    `, usually every ${row.expectedEveryHours.toFixed(1)}h`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Chart */}
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6 mb-8">
+          <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+            Webhooks Over Time
+          </div>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={timeline}
+                margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                {chartTopics.map((name: string, index: number) => (
+                  <Line
+                    key={name}
+                    type="monotone"
+                    dataKey={name}
+                    name={name}
+                    stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-8">
+          {/* By Topic */}
+          <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+            <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+              By Topic
+            </div>
+            {byTopic.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No webhooks in this range
+              </p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left py-2 px-3">Topic</th>
+                    <th className="text-right py-2 px-3">Count</th>
+                    <th className="text-right py-2 px-3">Last Received</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {byTopic.map((row: Serialized<WebhookRow>) => (
+                    <tr key={row.key}>
+                      <td className="py-2 px-3 font-mono">
+                        <Link
+                          to={withParams({ topic: row.key })}
+                          className={`text-blue-600 hover:underline ${
+                            row.key === topic ? "font-semibold" : ""
+                          }`}
+                        >
+                          {row.key}
+                        </Link>
+                        {staleTopicNames.has(row.key) && (
+                          <span className="ml-2 text-xs rounded-full px-2 py-0.5 bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                            stopped
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-right">{row.count}</td>
+                      <td className="py-2 px-3 text-right whitespace-nowrap">
+                        {formatTime(row.lastReceivedAt)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* By Domain */}
+          <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+            <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+              Busiest Shop Domains
+            </div>
+            {byDomain.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No webhooks in this range
+              </p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left py-2 px-3">Domain</th>
+                    <th className="text-right py-2 px-3">Count</th>
+                    <th className="text-left py-2 px-3">Shop</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {byDomain.map((row: Serialized<WebhookRow>) => {
+                    const shop = shopsByDomain[row.key];
+                    return (
+                      <tr key={row.key}>
+                        <td className="py-2 px-3 max-w-xs truncate">
+                          <Link
+                            to={withParams({ domain: row.key })}
+                            className={`text-blue-600 hover:underline ${
+                              row.key === domain ? "font-semibold" : ""
+                            }`}
+                          >
+                            {row.key}
+                          </Link>
+                        </td>
+                        <td className="py-2 px-3 text-right">{row.count}</td>
+                        <td className="py-2 px-3">
+                          {shop ? (
+                            <Link
+                              to={`/shop/${shop.id}`}
+                              className="text-blue-600 hover:underline"
+                            >
+                              {shop.isUninstalled ? "Uninstalled" : "Active"}
+                            </Link>
+                          ) : (
+                            <span className="text-gray-500 dark:text-gray-400">
+                              Unknown
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {/* Mismatches */}
+        <div className="bg-white dark:bg-gray-800 rounded shadow p-6">
+          <div className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">
+            Install Status Mismatches
+          </div>
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+            Shops whose uninstalled flag disagrees with the uninstall webhooks
+            received for their domain.
+          </p>
+          {mismatches.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Every shop matches its webhooks
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left py-2 px-3">Shop</th>
+                  <th className="text-left py-2 px-3">Problem</th>
+                  <th className="text-left py-2 px-3">Uninstall Webhook</th>
+                  <th className="text-left py-2 px-3">Shop Updated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mismatches.map((row: Serialized<UninstallMismatch>) => (
+                  <tr key={row.shopId}>
+                    <td className="py-2 px-3">
+                      <Link
+                        to={`/shop/${row.shopId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {row.domain}
+                      </Link>
+                    </td>
+                    <td className="py-2 px-3 text-yellow-700 dark:text-yellow-400">
+                      {row.kind === "missed-uninstall"
+                        ? "Marked active after an uninstall webhook"
+                        : "Marked uninstalled with no uninstall webhook"}
+                    </td>
+                    <td className="py-2 px-3 whitespace-nowrap">
+                      {formatTime(row.uninstalledWebhookAt)}
+                    </td>
+                    <td className="py-2 px-3 whitespace-nowrap">
+                      {formatTime(row.updatedAt)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import type { AlertRule, AlertRuleType } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import { getNotifiers } from "~/utils/notifiers.server";
+
+type Finding = { shopId: string | null; value: number; message: string };
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  ERROR_RATE: "5xx rate above threshold (%)",
+  GENERATIONS_STOPPED: "Generations dropped to zero",
+  LOW_CREDITS: "Available generations below threshold",
+};
+
+// Fewer requests than this in the window are too few to judge an error rate
+const MIN_REQUESTS_FOR_ERROR_RATE = 20;
+
+const minutesAgo = (now: Date, minutes: number) =>
+  new Date(now.getTime() - minutes * 60 * 1000);
+
+const evaluateErrorRate = async (
+  rule: AlertRule,
+  now: Date
+): Promise<Finding[]> => {
+  const where = {
+    createdAt: { gte: minutesAgo(now, rule.windowMinutes) },
+    ...(rule.shopId && { shopId: rule.shopId }),
+  };
+  const [total, serverErrors] = await Promise.all([
+    prisma.log.count({ where }),
+    prisma.log.count({ where: { ...where, status: { gte: 500 } } }),
+  ]);
+  if (total < MIN_REQUESTS_FOR_ERROR_RATE) return [];
+
+  const value = (serverErrors / total) * 100;
+  if (value <= rule.threshold) return [];
+  return [
+    {
+      shopId: rule.shopId,
+      value,
+      message: `5xx rate was ${value.toFixed(
+        1
+      )}% (${serverErrors} of ${total} requests) over the last ${
+        rule.windowMinutes
+      } minutes`,
+    },
+  ];
+};
+
+/**
+ * Shops with at least `threshold` generations in the window before last and
+ * none in the last window. Uninstalled shops are expected to go quiet.
+ */
+const evaluateGenerationsStopped = async (
+  rule: AlertRule,
+  now: Date
+): Promise<Finding[]> => {
+  const windowStart = minutesAgo(now, rule.windowMinutes);
+  const previousStart = minutesAgo(now, rule.windowMinutes * 2);
+  const shopWhere = {
+    Shop: { isUninstalled: false },
+    ...(rule.shopId && { shopId: rule.shopId }),
+  };
+
+  const [previous, current] = await Promise.all([
+    prisma.generation.groupBy({
+      by: ["shopId"],
+      where: {
+        ...shopWhere,
+        createdAt: { gte: previousStart, lt: windowStart },
+      },
+      _count: { _all: true },
+    }),
+    prisma.generation.groupBy({
+      by: ["shopId"],
+      where: { ...shopWhere, createdAt: { gte: windowStart } },
+      _count: { _all: true },
+    }),
+  ]);
+  const activeNow = new Set(current.map((row) => row.shopId));
+
+  return previous
+    .filter(
+      (row) =>
+        row._count._all >= Math.max(rule.threshold, 1) &&
+        !activeNow.has(row.shopId)
+    )
+    .map((row) => ({
+      shopId: row.shopId,
+      value: 0,
+      message: `No generations in the last ${rule.windowMinutes} minutes, down from ${row._count._all} in the ${rule.windowMinutes} minutes before`,
+    }));
+};
+
+const evaluateLowCredits = async (rule: AlertRule): Promise<Finding[]> => {
+  const shops = await prisma.shop.findMany({
+    where: {
+      isUninstalled: false,
+      ...(rule.shopId && { id: rule.shopId }),
+      Plan: {
+        isActive: true,
+        hasUnlimitedGenerations: false,
+        availableGenerations: { lt: rule.threshold },
+      },
+    },
+    select: { id: true, domain: true, Plan: true },
+  });
+
+  return shops.map((shop) => ({
+    shopId: shop.id,
+    value: shop.Plan?.availableGenerations ?? 0,
+    message: `${shop.domain} has ${
+      shop.Plan?.availableGenerations ?? 0
+    } generations left on ${shop.Plan?.name ?? "its plan"}`,
+  }));
+};
+
+const EVALUATORS: Record<
+  AlertRuleType,
+  (rule: AlertRule, now: Date) => Promise<Finding[]>
+> = {
+  ERROR_RATE: evaluateErrorRate,
+  GENERATIONS_STOPPED: evaluateGenerationsStopped,
+  LOW_CREDITS: evaluateLowCredits,
+};
+
+// Longest a run may hold a rule; a crashed run's claim lapses after this
+const EVALUATION_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Evaluates one rule, records an event per new finding and sends it through
+ * the rule's notifiers. While a finding persists its event stays open and
+ * nothing is sent again; once the condition clears the event is resolved,
+ * and the rule may fire for that shop again. The scheduler, the cron route
+ * and "Evaluate now" can overlap, so the rule is claimed first and skipped
+ * if another run holds it. Returns the events created.
+ */
+const evaluateRule = async (rule: AlertRule, now: Date) => {
+  const claimed = await prisma.alertRule.updateMany({
+    where: {
+      id: rule.id,
+      OR: [{ evaluatingUntil: null }, { evaluatingUntil: { lt: now } }],
+    },
+    data: {
+      evaluatingUntil: new Date(now.getTime() + EVALUATION_LEASE_MS),
+    },
+  });
+  if (claimed.count === 0) return 0;
+
+  try {
+    return await evaluateClaimedRule(rule, now);
+  } finally {
+    await prisma.alertRule.update({
+      where: { id: rule.id },
+      data: { evaluatingUntil: null },
+    });
+  }
+};
+
+const evaluateClaimedRule = async (rule: AlertRule, now: Date) => {
+  const findings = await EVALUATORS[rule.type](rule, now);
+  const openEvents = await prisma.alertEvent.findMany({
+    where: { ruleId: rule.id, resolvedAt: null },
+    select: { id: true, shopId: true },
+  });
+  const openShopIds = new Set(openEvents.map((event) => event.shopId));
+  const firingShopIds = new Set(findings.map((finding) => finding.shopId));
+  let created = 0;
+
+  for (const finding of findings) {
+    if (openShopIds.has(finding.shopId)) continue;
+
+    const event = await prisma.alertEvent.create({
+      data: {
+        ruleId: rule.id,
+        shopId: finding.shopId,
+        message: finding.message,
+        value: finding.value,
+        threshold: rule.threshold,
+      },
+    });
+    created++;
+
+    const errors: string[] = [];
+    for (const notifier of getNotifiers(rule)) {
+      try {
+        await notifier.send({
+          ruleName: rule.name,
+          message: finding.message,
+          shopId: finding.shopId,
+          value: finding.value,
+          threshold: rule.threshold,
+          createdAt: event.createdAt,
+        });
+      } catch (error) {
+        errors.push(`${notifier.name}: ${(error as Error).message}`);
+      }
+    }
+    await prisma.alertEvent.update({
+      where: { id: event.id },
+      data: {
+        notifiedAt: new Date(),
+        notifyError: errors.length > 0 ? errors.join("; ") : null,
+      },
+    });
+  }
+
+  const cleared = openEvents.filter(
+    (event) => !firingShopIds.has(event.shopId)
+  );
+  if (cleared.length > 0) {
+    await prisma.alertEvent.updateMany({
+      where: { id: { in: cleared.map((event) => event.id) } },
+      data: { resolvedAt: now },
+    });
+  }
+
+  await prisma.alertRule.update({
+    where: { id: rule.id },
+    data: { lastEvaluatedAt: now },
+  });
+  return created;
+};
+
+/**
+ * Evaluates every enabled rule once. A rule that fails is logged and
+ * skipped so the others still run. Returns the number of events created.
+ */
+export const evaluateAlertRules = async (now = new Date()) => {
+  const rules = await prisma.alertRule.findMany({ where: { isEnabled: true } });
+  let created = 0;
+
+  for (const rule of rules) {
+    try {
+      created += await evaluateRule(rule, now);
+    } catch (error) {
+      console.error(`Alert rule ${rule.id} failed`, error);
+    }
+  }
+
+  return created;
+};
+
+// Kept on globalThis so dev server reloads don't start a second interval
+const schedulerState = globalThis as typeof globalThis & {
+  __alertScheduler__?: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Evaluates rules in-process every `ALERTS_INTERVAL_MINUTES`. Meant for
+ * single-instance deployments; with several instances, leave it unset and
+ * call POST /alerts/evaluate from one external cron instead.
+ */
+export const startAlertScheduler = () => {
+  const minutes = Number(process.env.ALERTS_INTERVAL_MINUTES);
+  if (!minutes || schedulerState.__alertScheduler__) return;
+
+  schedulerState.__alertScheduler__ = setInterval(() => {
+    evaluateAlertRules().catch((error) => {
+      console.error("Alert evaluation failed", error);
+    });
+  }, minutes * 60 * 1000);
+};
@@ -0,0 +1,55 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import type { AuthUser } from "~/utils/auth.server";
+
+export type AuditEntry = {
+  action: string;
+  shopId?: string | null;
+  targetType?: string;
+  targetId?: string;
+  reason?: string;
+  before?: Prisma.InputJsonValue;
+  after?: Prisma.InputJsonValue;
+};
+
+// Loaders rerun after every action and on refresh, so a repeat view of the
+// same thing by the same person within this window isn't recorded again
+const VIEW_DEDUPE_MINUTES = 10;
+
+/**
+ * Records who did what. The actor's email is copied onto the row so entries
+ * stay readable after the admin user is renamed or removed. Pass the
+ * transaction client to record it together with the change it describes.
+ */
+export const recordAudit = (
+  actor: AuthUser,
+  entry: AuditEntry,
+  client: Prisma.TransactionClient = prisma
+) =>
+  client.auditLog.create({
+    data: {
+      actorId: actor.id,
+      actorEmail: actor.email,
+      ...entry,
+    },
+  });
+
+/**
+ * Records that a sensitive page or export was viewed. Call it from loaders,
+ * after access checks have passed.
+ */
+export const recordView = async (actor: AuthUser, entry: AuditEntry) => {
+  const recent = await prisma.auditLog.findFirst({
+    where: {
+      actorId: actor.id,
+      action: entry.action,
+      shopId: entry.shopId ?? null,
+      targetId: entry.targetId ?? null,
+      createdAt: { gte: new Date(Date.now() - VIEW_DEDUPE_MINUTES * 60000) },
+    },
+    select: { id: true },
+  });
+  if (!recent) {
+    await recordAudit(actor, entry);
+  }
+};
@@ -0,0 +1,167 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { redirect } from "@remix-run/node";
+import type { AdminRole } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import { getSession, sessionStorage } from "~/utils/session.server";
+import { can, type Permission } from "~/utils/roles";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+export type AuthUser = {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+};
+
+const authUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+} as const;
+
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16).toString("hex");
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${key.toString("hex")}`;
+};
+
+const verifyPassword = async (password: string, passwordHash: string) => {
+  const [salt, storedKey] = passwordHash.split(":");
+  if (!salt || !storedKey) return false;
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  const stored = Buffer.from(storedKey, "hex");
+  return stored.length === key.length && timingSafeEqual(stored, key);
+};
+
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Checks a sign-in attempt. After MAX_FAILED_LOGINS wrong passwords in a
+ * row the account is locked for LOCKOUT_MS, which slows down password
+ * guessing without locking anyone out for good.
+ */
+export const verifyLogin = async (
+  email: string,
+  password: string
+): Promise<{ user: AuthUser } | { error: string }> => {
+  const user = await prisma.adminUser.findUnique({
+    where: { email: email.toLowerCase() },
+  });
+  if (!user || user.isDisabled) return { error: "Invalid email or password" };
+  if (user.lockedUntil && user.lockedUntil > new Date()) {
+    return { error: "Too many failed attempts. Try again in a few minutes." };
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    // Incremented in the database so parallel attempts all count
+    const { failedLogins } = await prisma.adminUser.update({
+      where: { id: user.id },
+      data: { failedLogins: { increment: 1 } },
+      select: { failedLogins: true },
+    });
+    if (failedLogins >= MAX_FAILED_LOGINS) {
+      await prisma.adminUser.update({
+        where: { id: user.id },
+        data: {
+          failedLogins: 0,
+          lockedUntil: new Date(Date.now() + LOCKOUT_MS),
+        },
+      });
+    }
+    return { error: "Invalid email or password" };
+  }
+
+  await prisma.adminUser.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date(), failedLogins: 0, lockedUntil: null },
+  });
+
+  return {
+    user: { id: user.id, email: user.email, name: user.name, role: user.role },
+  };
+};
+
+/**
+ * The first admin account can only be created with `ADMIN_SETUP_TOKEN`, so
+ * a fresh deploy can't be claimed by whoever finds `/login` first.
+ */
+export const isSetupEnabled = () => !!process.env.ADMIN_SETUP_TOKEN;
+
+export const isValidSetupToken = (token: string) => {
+  const expected = process.env.ADMIN_SETUP_TOKEN;
+  if (!expected) return false;
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+};
+
+// Only allow redirects back into the dashboard itself. Browsers treat a
+// backslash like a slash, so "/\evil.com" is as external as "//evil.com".
+export const safeRedirect = (to: FormDataEntryValue | string | null) => {
+  if (!to || typeof to !== "string") return "/";
+  if (!to.startsWith("/") || to.startsWith("//") || to.startsWith("/\\")) {
+    return "/";
+  }
+  return to;
+};
+
+export const createUserSession = async (userId: string, redirectTo: string) => {
+  const session = await sessionStorage.getSession();
+  session.set("userId", userId);
+  return redirect(redirectTo, {
+    headers: { "Set-Cookie": await sessionStorage.commitSession(session) },
+  });
+};
+
+export const getUser = async (request: Request): Promise<AuthUser | null> => {
+  const session = await getSession(request);
+  const userId = session.get("userId");
+  if (typeof userId !== "string") return null;
+
+  const user = await prisma.adminUser.findFirst({
+    where: { id: userId, isDisabled: false },
+    select: authUserSelect,
+  });
+  return user;
+};
+
+/**
+ * Resolves the signed-in dashboard user or redirects to the login page.
+ * Throws a 403 when the user's role lacks the requested permission.
+ */
+export const requireUser = async (
+  request: Request,
+  permission: Permission = "dashboard:view"
+): Promise<AuthUser> => {
+  const user = await getUser(request);
+  if (!user) {
+    const url = new URL(request.url);
+    const searchParams = new URLSearchParams([
+      ["redirectTo", `${url.pathname}${url.search}`],
+    ]);
+    throw redirect(`/login?${searchParams}`);
+  }
+  if (!can(user.role, permission)) {
+    throw new Response("You do not have access to this page", {
+      status: 403,
+    });
+  }
+  return user;
+};
+
+export const logout = async (request: Request) => {
+  const session = await getSession(request);
+  return redirect("/login", {
+    headers: { "Set-Cookie": await sessionStorage.destroySession(session) },
+  });
+};
@@ -0,0 +1,111 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import {
+  generationSqlWhere,
+  type GenerationSqlFilter,
+} from "~/utils/conversion.server";
+import { UNCATEGORIZED, UNCATEGORIZED_LABEL } from "~/utils/categories";
+
+export const missingCategoryWhere: Prisma.GenerationWhereInput = {
+  OR: [{ productCategory: null }, { productCategory: "" }],
+};
+
+/**
+ * Reads the `category` param shared by the generations page and its export.
+ * Returns the raw value for the picker and a condition to merge into `where`.
+ */
+export const parseCategoryFilter = (searchParams: URLSearchParams) => {
+  const category = searchParams.get("category") || "";
+  let where: Prisma.GenerationWhereInput = {};
+  if (category === UNCATEGORIZED) {
+    where = missingCategoryWhere;
+  } else if (category) {
+    where = { productCategory: category };
+  }
+  return { category, where };
+};
+
+/** Every category that has been recorded, for the category picker. */
+export const getCategoryOptions = async (
+  where: Prisma.GenerationWhereInput = {}
+) => {
+  const rows = await prisma.generation.groupBy({
+    by: ["productCategory"],
+    where: { AND: [where, { NOT: missingCategoryWhere }] },
+    orderBy: { productCategory: "asc" },
+  });
+  return rows.map((row) => row.productCategory as string);
+};
+
+export type CategoryTimeline = {
+  categories: string[];
+  generations: Record<string, string | number>[];
+  rates: Record<string, string | number>[];
+};
+
+/**
+ * Daily generations and add-to-cart rate per category, one series per label
+ * in `categories` (pass UNCATEGORIZED_LABEL for missing ones), counted per
+ * day in the reporting timezone by the database. Anything else is left out
+ * so the chart stays readable.
+ */
+export const getCategoryTimeline = async (
+  filter: GenerationSqlFilter,
+  categories: string[],
+  timezone: string
+): Promise<CategoryTimeline> => {
+  const rows = await prisma.$queryRaw<
+    {
+      date: string;
+      category: string;
+      generations: number;
+      addedToCart: number;
+    }[]
+  >`
+    SELECT
+      to_char(("createdAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS "date",
+      COALESCE("productCategory", '') AS "category",
+      COUNT(*)::int AS "generations",
+      COUNT(*) FILTER (WHERE "addedToCart")::int AS "addedToCart"
+    FROM "Generation"
+    ${generationSqlWhere(filter)}
+    GROUP BY 1, 2
+    ORDER BY 1
+  `;
+
+  const days: {
+    date: string;
+    counts: Record<string, { generations: number; addedToCart: number }>;
+  }[] = [];
+  rows.forEach((row) => {
+    const label = row.category || UNCATEGORIZED_LABEL;
+    if (!categories.includes(label)) return;
+    let day = days[days.length - 1];
+    if (!day || day.date !== row.date) {
+      day = { date: row.date, counts: {} };
+      days.push(day);
+    }
+    const counts = (day.counts[label] ??= { generations: 0, addedToCart: 0 });
+    counts.generations += row.generations;
+    counts.addedToCart += row.addedToCart;
+  });
+
+  return {
+    categories,
+    generations: days.map((day) => ({
+      date: day.date,
+      ...Object.fromEntries(
+        categories.map((label) => [label, day.counts[label]?.generations ?? 0])
+      ),
+    })),
+    rates: days.map((day) => ({
+      date: day.date,
+      ...Object.fromEntries(
+        Object.entries(day.counts).map(([label, counts]) => [
+          label,
+          counts.addedToCart / counts.generations,
+        ])
+      ),
+    })),
+  };
+};
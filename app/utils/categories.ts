@@ -0,0 +1,5 @@
+// Shared with the UI, which links to and labels the uncategorized filter.
+
+// Search param value selecting generations without a category
+export const UNCATEGORIZED = "__none";
+export const UNCATEGORIZED_LABEL = "Uncategorized";
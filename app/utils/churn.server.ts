@@ -0,0 +1,195 @@
+import { prisma } from "~/utils/db.server";
+import { realChargeWhere, sumNetRevenueByShop } from "~/utils/revenue.server";
+import {
+  addPeriods,
+  periodKey,
+  periodLabel,
+  recentPeriods,
+  type PeriodUnit,
+} from "~/utils/periods.server";
+
+export const UNINSTALL_TOPIC = "app/uninstalled";
+
+export type UninstallDate = {
+  date: Date;
+  // "webhook" when Shopify told us, "updatedAt" when estimated
+  source: "webhook" | "updatedAt";
+};
+
+export type ChurnPoint = {
+  key: string;
+  label: string;
+  installs: number;
+  uninstalls: number;
+};
+
+export type ChurnedShop = {
+  id: string;
+  domain: string;
+  installedAt: Date;
+  uninstalledAt: Date;
+  source: UninstallDate["source"];
+  lastActivityAt: Date | null;
+  lifetimeRevenue: number;
+  reason: string | null;
+  note: string | null;
+};
+
+type ShopForChurn = {
+  id: string;
+  domain: string;
+  createdAt: Date;
+  updatedAt: Date;
+  isUninstalled: boolean;
+};
+
+const shopForChurnSelect = {
+  id: true,
+  domain: true,
+  createdAt: true,
+  updatedAt: true,
+  isUninstalled: true,
+} as const;
+
+/**
+ * When each uninstalled shop left: the latest `app/uninstalled` webhook for
+ * its domain, or its `updatedAt` when no webhook arrived after install.
+ * Shops that are still installed are left out.
+ */
+export const getUninstallDates = async (
+  shops: ShopForChurn[]
+): Promise<Map<string, UninstallDate>> => {
+  const uninstalled = shops.filter((shop) => shop.isUninstalled);
+  const webhooks = await prisma.processedWebhook.groupBy({
+    by: ["shopDomain"],
+    where: {
+      topic: UNINSTALL_TOPIC,
+      shopDomain: { in: uninstalled.map((shop) => shop.domain) },
+    },
+    _max: { receivedAt: true },
+  });
+  const webhookDates = new Map(
+    webhooks.map((row) => [row.shopDomain, row._max.receivedAt])
+  );
+
+  return new Map(
+    uninstalled.map((shop) => {
+      const received = webhookDates.get(shop.domain);
+      const date: UninstallDate =
+        received && received >= shop.createdAt
+          ? { date: received, source: "webhook" }
+          : { date: shop.updatedAt, source: "updatedAt" };
+      return [shop.id, date];
+    })
+  );
+};
+
+/**
+ * Installs and uninstalls in each of the last `count` weeks or months.
+ * Uninstalls are counted in the period the shop left, whenever it installed.
+ * Periods start at midnight in `timezone`.
+ */
+export const getChurnTimeline = async (
+  unit: PeriodUnit,
+  { count = 12, timezone }: { count?: number; timezone: string }
+) => {
+  const periods = recentPeriods(unit, count, new Date(), timezone);
+  const since = periods[0];
+
+  // Uninstalls in range can only come from shops updated since it started
+  const shops = await prisma.shop.findMany({
+    where: {
+      OR: [
+        { createdAt: { gte: since } },
+        { isUninstalled: true, updatedAt: { gte: since } },
+      ],
+    },
+    select: shopForChurnSelect,
+  });
+  const uninstallDates = await getUninstallDates(shops);
+
+  const indexOf = (date: Date) =>
+    periods.length -
+    1 -
+    [...periods].reverse().findIndex((start) => date >= start);
+
+  const points: ChurnPoint[] = periods.map((start) => ({
+    key: periodKey(start, timezone),
+    label: periodLabel(start, unit, timezone),
+    installs: 0,
+    uninstalls: 0,
+  }));
+  shops.forEach((shop) => {
+    if (shop.createdAt >= since) points[indexOf(shop.createdAt)].installs++;
+    const uninstall = uninstallDates.get(shop.id);
+    if (uninstall && uninstall.date >= since) {
+      points[indexOf(uninstall.date)].uninstalls++;
+    }
+  });
+
+  return {
+    since,
+    end: addPeriods(periods[periods.length - 1], 1, unit, timezone),
+    points,
+  };
+};
+
+/**
+ * Shops that uninstalled since `since`, most recent first, with their last
+ * generation or API call, lifetime net revenue and any recorded reason.
+ */
+export const getChurnedShops = async (since: Date): Promise<ChurnedShop[]> => {
+  const candidates = await prisma.shop.findMany({
+    where: { isUninstalled: true, updatedAt: { gte: since } },
+    select: shopForChurnSelect,
+  });
+  const uninstallDates = await getUninstallDates(candidates);
+  const shops = candidates.filter(
+    (shop) => uninstallDates.get(shop.id)!.date >= since
+  );
+  const shopIds = shops.map((shop) => shop.id);
+
+  const [generations, logs, revenueByShop, reasons] = await Promise.all([
+    prisma.generation.groupBy({
+      by: ["shopId"],
+      where: { shopId: { in: shopIds } },
+      _max: { createdAt: true },
+    }),
+    prisma.log.groupBy({
+      by: ["shopId"],
+      where: { shopId: { in: shopIds } },
+      _max: { createdAt: true },
+    }),
+    sumNetRevenueByShop({
+      AND: [{ shopId: { in: shopIds } }, realChargeWhere()],
+    }),
+    prisma.uninstallReason.findMany({ where: { shopId: { in: shopIds } } }),
+  ]);
+
+  const lastGeneration = new Map(
+    generations.map((row) => [row.shopId, row._max.createdAt])
+  );
+  const lastLog = new Map(logs.map((row) => [row.shopId, row._max.createdAt]));
+  const reasonByShop = new Map(reasons.map((row) => [row.shopId, row]));
+
+  return shops
+    .map((shop) => {
+      const uninstall = uninstallDates.get(shop.id)!;
+      const activity = [lastGeneration.get(shop.id), lastLog.get(shop.id)]
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => b.getTime() - a.getTime());
+      const reason = reasonByShop.get(shop.id);
+      return {
+        id: shop.id,
+        domain: shop.domain,
+        installedAt: shop.createdAt,
+        uninstalledAt: uninstall.date,
+        source: uninstall.source,
+        lastActivityAt: activity[0] ?? null,
+        lifetimeRevenue: revenueByShop.get(shop.id) ?? 0,
+        reason: reason?.reason ?? null,
+        note: reason?.note ?? null,
+      };
+    })
+    .sort((a, b) => b.uninstalledAt.getTime() - a.uninstalledAt.getTime());
+};
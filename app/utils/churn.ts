@@ -0,0 +1,9 @@
+export const UNINSTALL_REASONS = [
+  "Too expensive",
+  "Not enough value",
+  "Missing feature",
+  "Technical issues",
+  "Switched to another app",
+  "Store closed",
+  "Other",
+] as const;
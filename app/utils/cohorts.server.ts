@@ -0,0 +1,131 @@
+import { prisma } from "~/utils/db.server";
+import { realChargeWhere } from "~/utils/revenue.server";
+import { getUninstallDates } from "~/utils/churn.server";
+import {
+  addPeriods,
+  periodKey,
+  periodLabel,
+  recentPeriods,
+  type PeriodUnit,
+} from "~/utils/periods.server";
+
+export type CohortCell = {
+  installed: number;
+  generating: number;
+  paying: number;
+};
+
+export type Cohort = {
+  key: string;
+  label: string;
+  size: number;
+  // Index 0 is the install period itself; only periods that have started
+  cells: CohortCell[];
+};
+
+/**
+ * Groups shops by install week or month and, for each later period, counts
+ * how many are still installed at the end of it, generated at least once in
+ * it, and had a paid subscription at the end of it.
+ *
+ * Periods start at midnight in `timezone`. Uninstall dates come from
+ * `getUninstallDates`.
+ */
+export const getCohorts = async (
+  unit: PeriodUnit,
+  { count = 12, timezone }: { count?: number; timezone: string }
+): Promise<Cohort[]> => {
+  const now = new Date();
+  const periods = recentPeriods(unit, count, now, timezone);
+  const periodEnd = (index: number) => {
+    const end = addPeriods(periods[index], 1, unit, timezone);
+    return end > now ? now : end;
+  };
+
+  const shops = await prisma.shop.findMany({
+    where: { createdAt: { gte: periods[0] } },
+    select: {
+      id: true,
+      domain: true,
+      createdAt: true,
+      updatedAt: true,
+      isUninstalled: true,
+    },
+  });
+  const shopIds = shops.map((shop) => shop.id);
+
+  const [uninstallDates, generatingByPeriod, subscriptionEvents] =
+    await Promise.all([
+      getUninstallDates(shops),
+      // One grouped query per period keeps the rows fetched to one per shop
+      Promise.all(
+        periods.map(async (start, index) => {
+          const rows = await prisma.generation.groupBy({
+            by: ["shopId"],
+            where: {
+              shopId: { in: shopIds },
+              createdAt: { gte: start, lt: periodEnd(index) },
+            },
+          });
+          return new Set(rows.map((row) => row.shopId));
+        })
+      ),
+      prisma.billingLog.findMany({
+        where: {
+          AND: [
+            {
+              shopId: { in: shopIds },
+              eventType: { in: ["PLAN_CHANGE", "PLAN_CANCEL"] },
+            },
+            realChargeWhere(),
+          ],
+        },
+        select: { shopId: true, eventType: true, price: true, timestamp: true },
+        orderBy: { timestamp: "asc" },
+      }),
+    ]);
+
+  const eventsByShop = new Map<string, typeof subscriptionEvents>();
+  subscriptionEvents.forEach((event) => {
+    const events = eventsByShop.get(event.shopId) ?? [];
+    events.push(event);
+    eventsByShop.set(event.shopId, events);
+  });
+
+  // Paying when the latest subscription event by `at` is a paid plan change
+  const isPaying = (shopId: string, at: Date) => {
+    const latest = (eventsByShop.get(shopId) ?? [])
+      .filter((event) => event.timestamp < at)
+      .pop();
+    return latest?.eventType === "PLAN_CHANGE" && latest.price > 0;
+  };
+
+  return periods.map((start, cohortIndex) => {
+    const end = addPeriods(start, 1, unit, timezone);
+    const members = shops.filter(
+      (shop) => shop.createdAt >= start && shop.createdAt < end
+    );
+
+    const cells: CohortCell[] = [];
+    for (let index = cohortIndex; index < periods.length; index++) {
+      const at = periodEnd(index);
+      const installed = members.filter(
+        (shop) => !shop.isUninstalled || uninstallDates.get(shop.id)!.date >= at
+      );
+      cells.push({
+        installed: installed.length,
+        generating: members.filter((shop) =>
+          generatingByPeriod[index].has(shop.id)
+        ).length,
+        paying: installed.filter((shop) => isPaying(shop.id, at)).length,
+      });
+    }
+
+    return {
+      key: periodKey(start, timezone),
+      label: periodLabel(start, unit, timezone),
+      size: members.length,
+      cells,
+    };
+  });
+};
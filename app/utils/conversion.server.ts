@@ -0,0 +1,246 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import type { DateRangeCondition } from "~/utils/dateFilters.server";
+import { UNCATEGORIZED } from "~/utils/categories";
+
+export type ConversionRow = {
+  key: string;
+  generations: number;
+  addedToCart: number;
+  rate: number;
+};
+
+export type ConversionPoint = {
+  date: string;
+  generations: number;
+  addedToCart: number;
+  rate: number;
+};
+
+type ConversionField = "shopId" | "productId" | "productCategory";
+
+const rateOf = (addedToCart: number, generations: number) =>
+  generations > 0 ? addedToCart / generations : 0;
+
+export const getConversionSummary = async (
+  where: Prisma.GenerationWhereInput
+) => {
+  const [generations, addedToCart] = await Promise.all([
+    prisma.generation.count({ where }),
+    prisma.generation.count({ where: { AND: [where, { addedToCart: true }] } }),
+  ]);
+  return { generations, addedToCart, rate: rateOf(addedToCart, generations) };
+};
+
+export type GenerationSqlFilter = {
+  range?: DateRangeCondition;
+  shopId?: string;
+  productId?: string;
+  category?: string;
+};
+
+/**
+ * WHERE clause for raw queries over "Generation". `category` takes the same
+ * values as the `category` param, UNCATEGORIZED included.
+ */
+export const generationSqlWhere = ({
+  range,
+  shopId,
+  productId,
+  category,
+}: GenerationSqlFilter) => {
+  const conditions = [
+    range?.gte && Prisma.sql`"createdAt" >= ${range.gte}`,
+    range?.lt && Prisma.sql`"createdAt" < ${range.lt}`,
+    shopId && Prisma.sql`"shopId" = ${shopId}`,
+    productId && Prisma.sql`"productId" = ${productId}`,
+    category &&
+      (category === UNCATEGORIZED
+        ? Prisma.sql`("productCategory" IS NULL OR "productCategory" = '')`
+        : Prisma.sql`"productCategory" = ${category}`),
+  ].filter((condition): condition is Prisma.Sql => !!condition);
+  return conditions.length > 0
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}`
+    : Prisma.empty;
+};
+
+/**
+ * Daily generations and add-to-cart counts for the chart, counted per day
+ * in the reporting timezone by the database.
+ */
+export const getConversionTimeline = async (
+  filter: GenerationSqlFilter,
+  timezone: string
+): Promise<ConversionPoint[]> => {
+  const days = await prisma.$queryRaw<
+    { date: string; generations: number; addedToCart: number }[]
+  >`
+    SELECT
+      to_char(("createdAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS "date",
+      COUNT(*)::int AS "generations",
+      COUNT(*) FILTER (WHERE "addedToCart")::int AS "addedToCart"
+    FROM "Generation"
+    ${generationSqlWhere(filter)}
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  return days.map((day) => ({
+    ...day,
+    rate: rateOf(day.addedToCart, day.generations),
+  }));
+};
+
+/**
+ * Conversion grouped by shop, product or category, largest groups first.
+ * Generations without a category, whether null or empty, are grouped
+ * under an empty key.
+ */
+export const getConversionBy = async (
+  field: ConversionField,
+  where: Prisma.GenerationWhereInput,
+  { take = 10 }: { take?: number } = {}
+): Promise<ConversionRow[]> => {
+  const totals = await prisma.generation.groupBy({
+    by: [field],
+    where,
+    _count: { _all: true },
+    // Counting the grouped field would give null groups zero, so count the
+    // never-null ID to rank every group by its size
+    orderBy: { _count: { id: "desc" } },
+    take,
+  });
+  const keys = totals.map((row) => row[field]);
+
+  const converted = await prisma.generation.groupBy({
+    by: [field],
+    where: {
+      AND: [
+        where,
+        { addedToCart: true },
+        // Nulls can't go through `in`, so match them separately
+        {
+          OR: [
+            { [field]: { in: keys.filter((key) => key !== null) } },
+            ...(keys.includes(null) ? [{ [field]: null }] : []),
+          ],
+        },
+      ],
+    },
+    _count: { _all: true },
+  });
+  // Null and "" are both missing values, so their counts are merged
+  const convertedByKey = new Map<string, number>();
+  converted.forEach((row) => {
+    const key = row[field] ?? "";
+    convertedByKey.set(key, (convertedByKey.get(key) ?? 0) + row._count._all);
+  });
+  const generationsByKey = new Map<string, number>();
+  totals.forEach((row) => {
+    const key = row[field] ?? "";
+    generationsByKey.set(
+      key,
+      (generationsByKey.get(key) ?? 0) + row._count._all
+    );
+  });
+
+  return [...generationsByKey.entries()]
+    .map(([key, generations]) => {
+      const addedToCart = convertedByKey.get(key) ?? 0;
+      return {
+        key,
+        generations,
+        addedToCart,
+        rate: rateOf(addedToCart, generations),
+      };
+    })
+    .sort((a, b) => b.generations - a.generations);
+};
+
+export type CollapsingShop = {
+  shopId: string;
+  recentGenerations: number;
+  recentRate: number;
+  baselineRate: number;
+};
+
+/**
+ * Shops whose add-to-cart rate over the last `recentDays` fell by at least
+ * `minDrop` (relative) compared with the `baselineDays` before that. Shops
+ * below `minGenerations` in either window are ignored as too noisy. `where`
+ * narrows the generations considered, e.g. to one category.
+ */
+export const getCollapsingShops = async ({
+  recentDays = 7,
+  baselineDays = 28,
+  minGenerations = 20,
+  minDrop = 0.5,
+  where = {},
+}: {
+  recentDays?: number;
+  baselineDays?: number;
+  minGenerations?: number;
+  minDrop?: number;
+  where?: Prisma.GenerationWhereInput;
+} = {}): Promise<CollapsingShop[]> => {
+  const day = 24 * 60 * 60 * 1000;
+  const recentStart = new Date(Date.now() - recentDays * day);
+  const baselineStart = new Date(recentStart.getTime() - baselineDays * day);
+
+  const windowCounts = async (gte: Date, lt?: Date) => {
+    const createdAt = { gte, ...(lt && { lt }) };
+    const [totals, converted] = await Promise.all([
+      prisma.generation.groupBy({
+        by: ["shopId"],
+        where: { AND: [where, { createdAt }] },
+        _count: { _all: true },
+      }),
+      prisma.generation.groupBy({
+        by: ["shopId"],
+        where: { AND: [where, { createdAt, addedToCart: true }] },
+        _count: { _all: true },
+      }),
+    ]);
+    const convertedByShop = new Map(
+      converted.map((row) => [row.shopId, row._count._all])
+    );
+    return new Map(
+      totals.map((row) => [
+        row.shopId,
+        {
+          generations: row._count._all,
+          rate: rateOf(convertedByShop.get(row.shopId) ?? 0, row._count._all),
+        },
+      ])
+    );
+  };
+
+  const [recent, baseline] = await Promise.all([
+    windowCounts(recentStart),
+    windowCounts(baselineStart, recentStart),
+  ]);
+
+  const collapsing: CollapsingShop[] = [];
+  recent.forEach((current, shopId) => {
+    const before = baseline.get(shopId);
+    if (!before || before.rate === 0) return;
+    if (
+      current.generations < minGenerations ||
+      before.generations < minGenerations
+    ) {
+      return;
+    }
+    if (current.rate <= before.rate * (1 - minDrop)) {
+      collapsing.push({
+        shopId,
+        recentGenerations: current.generations,
+        recentRate: current.rate,
+        baselineRate: before.rate,
+      });
+    }
+  });
+
+  return collapsing.sort(
+    (a, b) => a.recentRate / a.baselineRate - b.recentRate / b.baselineRate
+  );
+};
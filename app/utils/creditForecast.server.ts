@@ -0,0 +1,141 @@
+import { addDays, differenceInHours } from "date-fns";
+import { prisma } from "~/utils/db.server";
+import { FORECAST_WINDOW_DAYS } from "~/utils/creditForecast";
+
+export type CreditForecast = {
+  availableGenerations: number;
+  // Average generations per day over `windowDays`
+  dailyRate: number;
+  windowDays: number;
+  // Null when the shop has made no generations recently
+  daysLeft: number | null;
+  runOutAt: Date | null;
+};
+
+type ForecastShop = {
+  id: string;
+  createdAt: Date;
+  Plan: {
+    availableGenerations: number;
+    hasUnlimitedGenerations: boolean;
+  } | null;
+};
+
+export type RunningOutShop = {
+  id: string;
+  domain: string;
+  email: string | null;
+  planName: string;
+  forecast: CreditForecast;
+};
+
+/**
+ * Predicts when each metered shop runs out of credits at its recent
+ * generation rate. Shops installed within the window are averaged over the
+ * days since install, so a new shop's rate is not diluted. Shops without a
+ * plan or on unlimited generations are left out.
+ */
+export const getCreditForecasts = async (
+  shops: ForecastShop[],
+  now = new Date()
+): Promise<Map<string, CreditForecast>> => {
+  const metered = shops.filter(
+    (shop) => shop.Plan && !shop.Plan.hasUnlimitedGenerations
+  );
+  if (metered.length === 0) return new Map();
+
+  const since = addDays(now, -FORECAST_WINDOW_DAYS);
+  const recent = await prisma.generation.groupBy({
+    by: ["shopId"],
+    where: {
+      shopId: { in: metered.map((shop) => shop.id) },
+      createdAt: { gte: since },
+    },
+    _count: { _all: true },
+  });
+  const counts = new Map(recent.map((row) => [row.shopId, row._count._all]));
+
+  return new Map(
+    metered.map((shop) => {
+      const availableGenerations = shop.Plan?.availableGenerations ?? 0;
+      // At least a day, so a shop installed an hour ago is not extrapolated
+      const windowDays = Math.min(
+        FORECAST_WINDOW_DAYS,
+        Math.max(differenceInHours(now, shop.createdAt) / 24, 1)
+      );
+      const dailyRate = (counts.get(shop.id) ?? 0) / windowDays;
+      const daysLeft =
+        availableGenerations <= 0
+          ? 0
+          : dailyRate > 0
+          ? availableGenerations / dailyRate
+          : null;
+      return [
+        shop.id,
+        {
+          availableGenerations,
+          dailyRate,
+          windowDays,
+          daysLeft,
+          runOutAt:
+            daysLeft === null
+              ? null
+              : new Date(now.getTime() + daysLeft * 24 * 60 * 60 * 1000),
+        },
+      ];
+    })
+  );
+};
+
+/**
+ * Installed shops on an active metered plan that are forecast to run out
+ * of credits within `withinDays`, soonest first. Shops already out of
+ * credits are included with zero days left.
+ */
+export const getShopsRunningOut = async ({
+  withinDays,
+  now = new Date(),
+}: {
+  withinDays: number;
+  now?: Date;
+}): Promise<RunningOutShop[]> => {
+  const shops = await prisma.shop.findMany({
+    where: {
+      isUninstalled: false,
+      Plan: { isActive: true, hasUnlimitedGenerations: false },
+    },
+    select: {
+      id: true,
+      domain: true,
+      email: true,
+      createdAt: true,
+      Plan: {
+        select: {
+          name: true,
+          availableGenerations: true,
+          hasUnlimitedGenerations: true,
+        },
+      },
+    },
+  });
+  const forecasts = await getCreditForecasts(shops, now);
+
+  return shops
+    .flatMap((shop) => {
+      const forecast = forecasts.get(shop.id);
+      return forecast &&
+        forecast.daysLeft !== null &&
+        forecast.daysLeft <= withinDays
+        ? [
+            {
+              id: shop.id,
+              domain: shop.domain,
+              email: shop.email,
+              planName: shop.Plan?.name ?? "",
+              forecast,
+            },
+          ]
+        : [];
+    })
+    .sort((a, b) => (a.forecast.daysLeft ?? 0) - (b.forecast.daysLeft ?? 0));
+};
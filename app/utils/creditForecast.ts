@@ -0,0 +1,14 @@
+// Days of recent generations the usage rate is averaged over
+export const FORECAST_WINDOW_DAYS = 14;
+
+// Choices for how soon a shop must run out to appear on /credits
+export const RUNNING_OUT_WINDOWS = [7, 14, 30] as const;
+
+export const formatDaysLeft = (daysLeft: number | null) =>
+  daysLeft === null
+    ? "No recent usage"
+    : daysLeft <= 0
+    ? "Out of credits"
+    : daysLeft < 1
+    ? "Less than a day"
+    : `${Math.floor(daysLeft)} day${Math.floor(daysLeft) === 1 ? "" : "s"}`;
@@ -0,0 +1,217 @@
+// Half-open: `gte` inclusive, `lt` exclusive
+export type DateRangeCondition = { gte?: Date; lt?: Date };
+
+export type DateRangeFilter = {
+  dateFilter: string;
+  customStart: string | null;
+  customEnd: string | null;
+  timezone: string;
+  // Undefined for "All Time"
+  range: DateRangeCondition | undefined;
+  // The window of the same length just before `range`, for comparisons
+  previous: DateRangeCondition | undefined;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isDay = (value: string | null): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The timezone reports are bucketed in: the `tz` param or form field, else
+ * `REPORTING_TIMEZONE`, else UTC.
+ */
+export const getReportingTimezone = (params?: URLSearchParams | FormData) => {
+  const requested = params?.get("tz");
+  if (typeof requested === "string" && isValidTimezone(requested)) {
+    return requested;
+  }
+  const configured = process.env.REPORTING_TIMEZONE;
+  return configured && isValidTimezone(configured) ? configured : "UTC";
+};
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const zonedParts = (date: Date, timezone: string) => {
+  let formatter = partsFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsFormatters.set(timezone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+};
+
+// Milliseconds the timezone is ahead of UTC at `date`
+const offsetAt = (date: Date, timezone: string) => {
+  const parts = zonedParts(date, timezone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * The calendar day (yyyy-MM-dd) a moment falls on in the timezone. Use it
+ * to bucket rows by day instead of `toISOString()`, which is always UTC.
+ */
+export const formatDay = (date: Date, timezone: string) => {
+  const { year, month, day } = zonedParts(date, timezone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+    2,
+    "0"
+  )}`;
+};
+
+// The moment a wall-clock time (as UTC milliseconds) occurs in the timezone
+const fromWallClock = (wallClock: number, timezone: string) => {
+  const guess = wallClock - offsetAt(new Date(wallClock), timezone);
+  // Recheck in case a DST change falls between the guess and the time
+  return new Date(wallClock - offsetAt(new Date(guess), timezone));
+};
+
+// Midnight at the start of a yyyy-MM-dd day in the timezone
+export const startOfDay = (day: string, timezone: string) =>
+  fromWallClock(new Date(`${day}T00:00:00Z`).getTime(), timezone);
+
+/**
+ * Reads a `datetime-local` value (yyyy-MM-ddTHH:mm, optionally with
+ * seconds) as a time in the timezone. Null if it is not one.
+ */
+export const parseDateTime = (value: string | null, timezone: string) => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(value)) {
+    return null;
+  }
+  const wallClock = new Date(
+    `${value.length === 16 ? `${value}:00` : value}Z`
+  ).getTime();
+  return isNaN(wallClock) ? null : fromWallClock(wallClock, timezone);
+};
+
+export const addDays = (day: string, amount: number) =>
+  new Date(new Date(`${day}T00:00:00Z`).getTime() + amount * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+
+// First day of the month `monthsAgo` months before the day's month
+export const firstOfMonth = (day: string, monthsAgo = 0) => {
+  const date = new Date(`${day.slice(0, 7)}-01T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() - monthsAgo);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Reads the `dateFilter`/`start`/`end`/`tz` params shared by every page
+ * and turns them into a Prisma date condition, plus the previous window of
+ * the same length for "vs. previous period" comparisons. Days start at
+ * midnight in the reporting timezone.
+ */
+export const getDateRangeFilter = (
+  searchParams: URLSearchParams,
+  defaultFilter = "30days"
+): DateRangeFilter => {
+  const customStart = searchParams.get("start");
+  const customEnd = searchParams.get("end");
+  // Links that only pass start/end mean a custom range
+  const dateFilter =
+    searchParams.get("dateFilter") ||
+    (customStart || customEnd ? "custom" : defaultFilter);
+  const timezone = getReportingTimezone(searchParams);
+
+  const today = formatDay(new Date(), timezone);
+  const tomorrow = addDays(today, 1);
+  const days = (from: string, to: string): [string, string] => [from, to];
+
+  let window: [string, string] | undefined;
+  switch (dateFilter) {
+    case "today":
+      window = days(today, tomorrow);
+      break;
+    case "yesterday":
+      window = days(addDays(today, -1), today);
+      break;
+    case "7days":
+      window = days(addDays(today, -6), tomorrow);
+      break;
+    case "30days":
+      window = days(addDays(today, -29), tomorrow);
+      break;
+    case "90days":
+      window = days(addDays(today, -89), tomorrow);
+      break;
+    case "thisMonth":
+      window = days(firstOfMonth(today), tomorrow);
+      break;
+    case "lastMonth":
+      window = days(firstOfMonth(today, 1), firstOfMonth(today));
+      break;
+    case "custom":
+      if (isDay(customStart) || isDay(customEnd)) {
+        window = days(
+          isDay(customStart) ? customStart : "1970-01-01",
+          addDays(isDay(customEnd) ? customEnd : today, 1)
+        );
+      }
+      break;
+  }
+
+  if (!window) {
+    return {
+      dateFilter,
+      customStart,
+      customEnd,
+      timezone,
+      range: undefined,
+      previous: undefined,
+    };
+  }
+
+  const range = {
+    gte: startOfDay(window[0], timezone),
+    lt: startOfDay(window[1], timezone),
+  };
+  const length = range.lt.getTime() - range.gte.getTime();
+  return {
+    dateFilter,
+    customStart,
+    customEnd,
+    timezone,
+    range,
+    previous: {
+      gte: new Date(range.gte.getTime() - length),
+      lt: range.gte,
+    },
+  };
+};
@@ -0,0 +1,32 @@
+// Shared by the date range picker and the server-side date range engine
+
+export const DATE_PRESETS = [
+  { value: "today", label: "Today" },
+  { value: "yesterday", label: "Yesterday" },
+  { value: "7days", label: "Last 7 Days" },
+  { value: "30days", label: "Last 30 Days" },
+  { value: "90days", label: "Last 90 Days" },
+  { value: "thisMonth", label: "This Month" },
+  { value: "lastMonth", label: "Last Month" },
+  { value: "all", label: "All Time" },
+  { value: "custom", label: "Custom Range" },
+] as const;
+
+export const TIMEZONE_OPTIONS = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Chicago",
+  "America/New_York",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Tbilisi",
+  "Asia/Kolkata",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+// The preset timezones, plus the current one if it is not among them
+export const timezoneOptions = (current: string) => [
+  ...(TIMEZONE_OPTIONS.includes(current) ? [] : [current]),
+  ...TIMEZONE_OPTIONS,
+];
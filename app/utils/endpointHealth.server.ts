@@ -0,0 +1,205 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import type { DateRangeCondition } from "~/utils/dateFilters.server";
+import { redactJson } from "~/utils/redaction.server";
+
+export type HealthRow = {
+  key: string;
+  total: number;
+  clientErrors: number;
+  serverErrors: number;
+  clientErrorRate: number;
+  serverErrorRate: number;
+};
+
+export type HealthPoint = {
+  date: string;
+  total: number;
+  clientErrorRate: number;
+  serverErrorRate: number;
+};
+
+export type ErrorGroup = {
+  message: string;
+  count: number;
+  statuses: number[];
+  endpoints: string[];
+  lastSeenAt: Date;
+};
+
+// How many recent failing logs are read to group error messages
+const ERROR_SAMPLE_SIZE = 5000;
+
+const rate = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+const toHealthRow = (
+  key: string,
+  counts: { total: number; clientErrors: number; serverErrors: number }
+): HealthRow => ({
+  key,
+  ...counts,
+  clientErrorRate: rate(counts.clientErrors, counts.total),
+  serverErrorRate: rate(counts.serverErrors, counts.total),
+});
+
+/**
+ * Request volume and 4xx/5xx rates per endpoint or shop. Grouping by status
+ * as well keeps it to one query; rows are folded into classes in memory.
+ */
+export const getHealthBy = async (
+  field: "endpoint" | "shopId",
+  where: Prisma.LogWhereInput
+): Promise<HealthRow[]> => {
+  const rows = await prisma.log.groupBy({
+    by: [field, "status"],
+    where,
+    _count: { _all: true },
+  });
+
+  const totals = new Map<
+    string,
+    { total: number; clientErrors: number; serverErrors: number }
+  >();
+  rows.forEach((row) => {
+    const key = row[field] ?? "";
+    const counts = totals.get(key) ?? {
+      total: 0,
+      clientErrors: 0,
+      serverErrors: 0,
+    };
+    counts.total += row._count._all;
+    if (row.status >= 400 && row.status < 500) {
+      counts.clientErrors += row._count._all;
+    } else if (row.status >= 500) {
+      counts.serverErrors += row._count._all;
+    }
+    totals.set(key, counts);
+  });
+
+  return [...totals.entries()]
+    .map(([key, counts]) => toHealthRow(key, counts))
+    .sort((a, b) => b.total - a.total);
+};
+
+/**
+ * Daily volume and error rates, counted per day in the database since the
+ * log table is too large to bucket in memory. Days are calendar days in
+ * `timezone`; `createdAt` is stored as UTC.
+ */
+export const getHealthTimeline = async (
+  {
+    range,
+    endpoint,
+    shopId,
+  }: { range?: DateRangeCondition; endpoint?: string; shopId?: string },
+  timezone: string
+): Promise<HealthPoint[]> => {
+  const conditions = [
+    range?.gte && Prisma.sql`"createdAt" >= ${range.gte}`,
+    range?.lt && Prisma.sql`"createdAt" < ${range.lt}`,
+    endpoint && Prisma.sql`"endpoint" = ${endpoint}`,
+    shopId && Prisma.sql`"shopId" = ${shopId}`,
+  ].filter((condition): condition is Prisma.Sql => !!condition);
+
+  const days = await prisma.$queryRaw<
+    {
+      date: string;
+      total: number;
+      clientErrors: number;
+      serverErrors: number;
+    }[]
+  >`
+    SELECT
+      to_char(("createdAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS "date",
+      COUNT(*)::int AS "total",
+      COUNT(*) FILTER (WHERE "status" >= 400 AND "status" < 500)::int AS "clientErrors",
+      COUNT(*) FILTER (WHERE "status" >= 500)::int AS "serverErrors"
+    FROM "Log"
+    ${
+      conditions.length > 0
+        ? Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}`
+        : Prisma.empty
+    }
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  return days.map((day) => ({
+    date: day.date,
+    total: day.total,
+    clientErrorRate: rate(day.clientErrors, day.total),
+    serverErrorRate: rate(day.serverErrors, day.total),
+  }));
+};
+
+/** Pulls a human readable message out of whatever shape the response has. */
+const extractMessage = (response: Prisma.JsonValue | null): string => {
+  if (typeof response === "string") return response;
+  if (!response || typeof response !== "object" || Array.isArray(response)) {
+    return "";
+  }
+  for (const key of ["message", "error", "errors", "detail"]) {
+    const value = response[key];
+    if (typeof value === "string") return value;
+    if (Array.isArray(value) && value.length > 0) {
+      return extractMessage(value[0]);
+    }
+    if (value && typeof value === "object") return extractMessage(value);
+  }
+  return "";
+};
+
+/**
+ * Replaces the parts of a message that vary between occurrences (IDs,
+ * numbers, emails, quoted values) so the same error groups together.
+ */
+export const normalizeErrorMessage = (message: string) =>
+  message
+    .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, "<email>")
+    .replace(
+      /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+      "<uuid>"
+    )
+    .replace(/gid:\/\/shopify\/\w+\/\d+/g, "<gid>")
+    .replace(/\b[0-9a-f]{16,}\b/gi, "<hex>")
+    .replace(/"[^"]*"|'[^']*'/g, "<value>")
+    .replace(/\d+/g, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 200);
+
+/** The most common error messages among recent failing requests. */
+export const getCommonErrors = async (
+  where: Prisma.LogWhereInput,
+  { take = 20 }: { take?: number } = {}
+): Promise<ErrorGroup[]> => {
+  const logs = await prisma.log.findMany({
+    where: { AND: [where, { status: { gte: 400 } }] },
+    select: { endpoint: true, status: true, response: true, createdAt: true },
+    orderBy: { createdAt: "desc" },
+    take: ERROR_SAMPLE_SIZE,
+  });
+
+  const groups = new Map<string, ErrorGroup>();
+  logs.forEach((log) => {
+    // Messages can echo request data back, so redact before reading them
+    const message =
+      normalizeErrorMessage(extractMessage(redactJson(log.response))) ||
+      `HTTP ${log.status} (no message)`;
+    const group = groups.get(message) ?? {
+      message,
+      count: 0,
+      statuses: [],
+      endpoints: [],
+      lastSeenAt: log.createdAt,
+    };
+    group.count++;
+    if (!group.statuses.includes(log.status)) group.statuses.push(log.status);
+    if (!group.endpoints.includes(log.endpoint)) {
+      group.endpoints.push(log.endpoint);
+    }
+    groups.set(message, group);
+  });
+
+  return [...groups.values()].sort((a, b) => b.count - a.count).slice(0, take);
+};
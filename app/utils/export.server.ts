@@ -0,0 +1,138 @@
+export type ExportFormat = "csv" | "json";
+
+export type ExportColumn<T> = {
+  header: string;
+  value: (row: T) => unknown;
+};
+
+const BATCH_SIZE = 1000;
+
+export const parseExportFormat = (
+  searchParams: URLSearchParams
+): ExportFormat => (searchParams.get("format") === "json" ? "json" : "csv");
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Spreadsheet apps run text cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvCell = (value: unknown) => {
+  // Negative amounts, even as strings, stay numbers
+  const text =
+    typeof value === "string" &&
+    FORMULA_PREFIX.test(value) &&
+    isNaN(Number(value))
+      ? `'${value}`
+      : formatValue(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Walks a table in fixed-size pages using Prisma cursor pagination so exports
+ * never hold more than one batch in memory. `fetchPage` must order by a
+ * unique key (or end with one as a tiebreaker).
+ */
+export async function* paginate<T extends { id: string }>(
+  fetchPage: (args: {
+    take: number;
+    skip?: number;
+    cursor?: { id: string };
+  }) => Promise<T[]>
+): AsyncGenerator<T[]> {
+  let cursor: string | undefined;
+  while (true) {
+    const rows = await fetchPage(
+      cursor
+        ? { take: BATCH_SIZE, skip: 1, cursor: { id: cursor } }
+        : { take: BATCH_SIZE }
+    );
+    if (rows.length > 0) yield rows;
+    if (rows.length < BATCH_SIZE) return;
+    cursor = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * Streams batches of rows to the client as a CSV or JSON attachment.
+ */
+export const streamExport = <T>({
+  filename,
+  format,
+  columns,
+  batches,
+}: {
+  filename: string;
+  format: ExportFormat;
+  columns: ExportColumn<T>[];
+  batches: AsyncIterable<T[]>;
+}) => {
+  const encoder = new TextEncoder();
+  const iterator = batches[Symbol.asyncIterator]();
+  let started = false;
+  let isFirstRow = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(
+          encoder.encode(
+            format === "csv"
+              ? `${columns
+                  .map((column) => toCsvCell(column.header))
+                  .join(",")}\n`
+              : "["
+          )
+        );
+        return;
+      }
+
+      try {
+        const { done, value } = await iterator.next();
+        if (done) {
+          if (format === "json") controller.enqueue(encoder.encode("]\n"));
+          controller.close();
+          return;
+        }
+
+        const chunk = value
+          .map((row) => {
+            if (format === "csv") {
+              return `${columns
+                .map((column) => toCsvCell(column.value(row)))
+                .join(",")}\n`;
+            }
+            const record = Object.fromEntries(
+              columns.map((column) => [column.header, column.value(row)])
+            );
+            const prefix = isFirstRow ? "\n" : ",\n";
+            isFirstRow = false;
+            return prefix + JSON.stringify(record);
+          })
+          .join("");
+        controller.enqueue(encoder.encode(chunk));
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type":
+        format === "csv"
+          ? "text/csv; charset=utf-8"
+          : "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}.${format}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+};
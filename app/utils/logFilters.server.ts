@@ -0,0 +1,75 @@
+import type { Prisma } from "@prisma/client";
+import {
+  getReportingTimezone,
+  parseDateTime,
+} from "~/utils/dateFilters.server";
+
+export type StatusClass = "all" | "2xx" | "3xx" | "4xx" | "5xx";
+
+export type LogFilters = {
+  endpoint: string;
+  method: string;
+  statusClass: StatusClass;
+  shop: string;
+  // `datetime-local` values, e.g. 2024-05-01T13:30, read in `timezone`
+  from: string;
+  to: string;
+  timezone: string;
+};
+
+export const LOG_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+const STATUS_CLASSES: StatusClass[] = ["2xx", "3xx", "4xx", "5xx"];
+
+export const parseLogFilters = (searchParams: URLSearchParams): LogFilters => {
+  const method = (searchParams.get("method") || "").toUpperCase();
+  const statusClass = searchParams.get("status") as StatusClass;
+
+  return {
+    endpoint: (searchParams.get("endpoint") || "").trim(),
+    method: LOG_METHODS.includes(method) ? method : "",
+    statusClass: STATUS_CLASSES.includes(statusClass) ? statusClass : "all",
+    shop: (searchParams.get("shop") || "").trim(),
+    from: searchParams.get("from") || "",
+    to: searchParams.get("to") || "",
+    timezone: getReportingTimezone(searchParams),
+  };
+};
+
+/**
+ * Translates the /logs filter bar into a Prisma filter. `shop` matches either
+ * a shop ID exactly (as linked from the shop page) or part of its domain.
+ */
+export const buildLogWhere = (filters: LogFilters): Prisma.LogWhereInput => {
+  const where: Prisma.LogWhereInput = {};
+
+  if (filters.endpoint) {
+    where.endpoint = { contains: filters.endpoint, mode: "insensitive" };
+  }
+
+  if (filters.method) {
+    where.method = filters.method;
+  }
+
+  if (filters.statusClass !== "all") {
+    const base = parseInt(filters.statusClass[0], 10) * 100;
+    where.status = { gte: base, lt: base + 100 };
+  }
+
+  if (filters.shop) {
+    where.OR = [
+      { shopId: filters.shop },
+      { Shop: { domain: { contains: filters.shop, mode: "insensitive" } } },
+    ];
+  }
+
+  const from = parseDateTime(filters.from, filters.timezone);
+  const to = parseDateTime(filters.to, filters.timezone);
+  if (from || to) {
+    where.createdAt = {
+      ...(from && { gte: from }),
+      ...(to && { lte: to }),
+    };
+  }
+
+  return where;
+};
@@ -0,0 +1,90 @@
+export type AlertNotification = {
+  ruleName: string;
+  message: string;
+  shopId: string | null;
+  value: number;
+  threshold: number;
+  createdAt: Date;
+};
+
+export type Notifier = {
+  name: string;
+  send: (notification: AlertNotification) => Promise<void>;
+};
+
+// A hanging endpoint would otherwise hold up every rule evaluated after it
+const SEND_TIMEOUT_MS = 10_000;
+
+const webhookNotifier = (url: string): Notifier => ({
+  name: `webhook ${new URL(url).host}`,
+  send: async (notification) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  },
+});
+
+/**
+ * Sends through an HTTP email API (`ALERT_EMAIL_API_URL`, authenticated with
+ * `ALERT_EMAIL_API_KEY`) that accepts `{ to, subject, text }` as JSON.
+ */
+const emailNotifier = (to: string): Notifier => ({
+  name: `email ${to}`,
+  send: async (notification) => {
+    const url = process.env.ALERT_EMAIL_API_URL;
+    if (!url) {
+      throw new Error("ALERT_EMAIL_API_URL is not set");
+    }
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.ALERT_EMAIL_API_KEY || ""}`,
+      },
+      body: JSON.stringify({
+        to,
+        subject: `[Fitsee alert] ${notification.ruleName}`,
+        text: notification.message,
+      }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Email API responded with ${response.status}`);
+    }
+  },
+});
+
+const logNotifier: Notifier = {
+  name: "log",
+  send: async (notification) => {
+    console.info("[alert]", notification.ruleName, notification.message);
+  },
+};
+
+/**
+ * Notifiers for a rule's delivery settings. With `ALERT_NOTIFIER=log`, which
+ * is the default outside production, every delivery is replaced by a console
+ * line so rules can be tried locally without sending anything.
+ */
+export const getNotifiers = (rule: {
+  webhookUrl: string | null;
+  email: string | null;
+}): Notifier[] => {
+  const mode =
+    process.env.ALERT_NOTIFIER ??
+    (process.env.NODE_ENV === "production" ? "live" : "log");
+  if (mode === "log") {
+    return [logNotifier];
+  }
+
+  const notifiers: Notifier[] = [];
+  if (rule.webhookUrl) notifiers.push(webhookNotifier(rule.webhookUrl));
+  if (rule.email) notifiers.push(emailNotifier(rule.email));
+  return notifiers;
+};
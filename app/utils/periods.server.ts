@@ -0,0 +1,67 @@
+import { format, parseISO } from "date-fns";
+import {
+  addDays,
+  firstOfMonth,
+  formatDay,
+  startOfDay,
+} from "~/utils/dateFilters.server";
+
+export type PeriodUnit = "week" | "month";
+
+export const parsePeriodUnit = (searchParams: URLSearchParams): PeriodUnit =>
+  searchParams.get("period") === "week" ? "week" : "month";
+
+// First day (yyyy-MM-dd) of the period a day falls in. Weeks start on Monday
+const periodStartDay = (day: string, unit: PeriodUnit) => {
+  if (unit === "month") return firstOfMonth(day);
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return addDays(day, -((weekday + 6) % 7));
+};
+
+// Periods start at midnight in the reporting timezone, like date ranges
+export const startOfPeriod = (date: Date, unit: PeriodUnit, timezone: string) =>
+  startOfDay(periodStartDay(formatDay(date, timezone), unit), timezone);
+
+export const addPeriods = (
+  start: Date,
+  amount: number,
+  unit: PeriodUnit,
+  timezone: string
+) => {
+  const day = formatDay(start, timezone);
+  return startOfDay(
+    unit === "week" ? addDays(day, amount * 7) : firstOfMonth(day, -amount),
+    timezone
+  );
+};
+
+// Start dates of the last `count` periods, oldest first, ending with the
+// period in progress
+export const recentPeriods = (
+  unit: PeriodUnit,
+  count: number,
+  now: Date,
+  timezone: string
+) =>
+  Array.from({ length: count }, (_, index) =>
+    addPeriods(
+      startOfPeriod(now, unit, timezone),
+      index - count + 1,
+      unit,
+      timezone
+    )
+  );
+
+export const periodKey = (start: Date, timezone: string) =>
+  formatDay(start, timezone);
+
+export const periodLabel = (
+  start: Date,
+  unit: PeriodUnit,
+  timezone: string
+) => {
+  const day = parseISO(periodKey(start, timezone));
+  return unit === "week"
+    ? `Week of ${format(day, "MMM d, yyyy")}`
+    : format(day, "MMM yyyy");
+};
@@ -0,0 +1,198 @@
+import type { Plan, Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import { recordAudit } from "~/utils/audit.server";
+import {
+  getReportingTimezone,
+  parseDateTime,
+} from "~/utils/dateFilters.server";
+import type { AuthUser } from "~/utils/auth.server";
+
+export const PLAN_ACTIONS = [
+  "grant-bonus",
+  "reset-usage",
+  "set-unlimited",
+  "set-active",
+  "set-last-reset",
+] as const;
+export type PlanAction = (typeof PLAN_ACTIONS)[number];
+
+export const isPlanAction = (value: unknown): value is PlanAction =>
+  PLAN_ACTIONS.includes(value as PlanAction);
+
+type PlanActionResult =
+  | { intent: PlanAction; error: string; message?: undefined }
+  | { intent: PlanAction; message: string; error?: undefined };
+
+// Guards against typos like an extra zero when granting credits
+const MAX_GENERATIONS = 1_000_000;
+
+const parseCount = (value: FormDataEntryValue | null) => {
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 && count <= MAX_GENERATIONS
+    ? count
+    : null;
+};
+
+const parseBoolean = (value: FormDataEntryValue | null) =>
+  value === "true" ? true : value === "false" ? false : null;
+
+const snapshot = (
+  plan: Plan,
+  fields: (keyof Prisma.PlanUpdateInput)[]
+): Prisma.InputJsonObject =>
+  Object.fromEntries(
+    fields.map((field) => {
+      const value = plan[field as keyof Plan];
+      return [field, value instanceof Date ? value.toISOString() : value];
+    })
+  );
+
+/**
+ * Validates a plan change from the shop page. Returns the update to apply
+ * or an error message.
+ */
+const buildPlanUpdate = (
+  intent: PlanAction,
+  formData: FormData,
+  plan: Plan
+): { data: Prisma.PlanUpdateInput; summary: string } | { error: string } => {
+  switch (intent) {
+    case "grant-bonus": {
+      const amount = parseCount(formData.get("amount"));
+      if (!amount) {
+        return {
+          error: `Bonus must be a whole number between 1 and ${MAX_GENERATIONS}`,
+        };
+      }
+      return {
+        // Incremented in the database, since the app spends credits meanwhile
+        data: { availableGenerations: { increment: amount } },
+        summary: `Granted ${amount} bonus generations`,
+      };
+    }
+    case "reset-usage": {
+      const availableGenerations = parseCount(
+        formData.get("availableGenerations")
+      );
+      const totalGenerationsUsed = parseCount(
+        formData.get("totalGenerationsUsed")
+      );
+      if (availableGenerations === null || totalGenerationsUsed === null) {
+        return {
+          error: `Counts must be whole numbers between 0 and ${MAX_GENERATIONS}`,
+        };
+      }
+      return {
+        data: {
+          availableGenerations,
+          totalGenerationsUsed,
+          lastResetAt: new Date(),
+        },
+        summary: "Reset generation counts",
+      };
+    }
+    case "set-unlimited": {
+      const value = parseBoolean(formData.get("value"));
+      if (value === null) return { error: "Choose enable or disable" };
+      if (value === plan.hasUnlimitedGenerations) {
+        return { error: "Plan already has this setting" };
+      }
+      return {
+        data: { hasUnlimitedGenerations: value },
+        summary: value
+          ? "Enabled unlimited generations"
+          : "Disabled unlimited generations",
+      };
+    }
+    case "set-active": {
+      const value = parseBoolean(formData.get("value"));
+      if (value === null) return { error: "Choose activate or deactivate" };
+      if (value === plan.isActive) {
+        return { error: "Plan already has this setting" };
+      }
+      return {
+        data: { isActive: value },
+        summary: value ? "Activated plan" : "Deactivated plan",
+      };
+    }
+    case "set-last-reset": {
+      // The admin's wall-clock time, in the timezone posted with the form
+      const value = String(formData.get("lastResetAt") || "");
+      const timezone = getReportingTimezone(formData);
+      const lastResetAt = parseDateTime(value, timezone);
+      if (!lastResetAt) {
+        return { error: "Enter a valid date" };
+      }
+      if (lastResetAt > new Date()) {
+        return { error: "Last reset cannot be in the future" };
+      }
+      return {
+        data: { lastResetAt },
+        summary: `Set last reset to ${value.replace("T", " ")} ${timezone}`,
+      };
+    }
+  }
+};
+
+/**
+ * Applies a plan change requested from the shop page. Every change needs an
+ * explicit confirmation and a reason, and is written to the audit log with
+ * the values before and after.
+ */
+export const applyPlanAction = async (
+  user: AuthUser,
+  shopId: string,
+  intent: PlanAction,
+  formData: FormData
+): Promise<PlanActionResult> => {
+  const reason = String(formData.get("reason") || "").trim();
+  if (!reason) {
+    return { intent, error: "A reason is required" };
+  }
+  if (formData.get("confirm") !== "yes") {
+    return { intent, error: "Tick the box to confirm this change" };
+  }
+
+  const shop = await prisma.shop.findUnique({
+    where: { id: shopId },
+    select: { Plan: true },
+  });
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+  if (!shop.Plan) {
+    return { intent, error: "This shop has no plan" };
+  }
+
+  const update = buildPlanUpdate(intent, formData, shop.Plan);
+  if ("error" in update) {
+    return { intent, error: update.error };
+  }
+
+  // The change and its audit entry are written together or not at all.
+  // "before" is read again in the transaction, as usage may have moved on.
+  const fields = Object.keys(update.data) as (keyof Prisma.PlanUpdateInput)[];
+  const planId = shop.Plan.id;
+  await prisma.$transaction(async (tx) => {
+    const before = await tx.plan.findUniqueOrThrow({ where: { id: planId } });
+    const updated = await tx.plan.update({
+      where: { id: planId },
+      data: update.data,
+    });
+    await recordAudit(
+      user,
+      {
+        action: `plan.${intent}`,
+        shopId,
+        targetType: "Plan",
+        targetId: updated.id,
+        reason,
+        before: snapshot(before, fields),
+        after: snapshot(updated, fields),
+      },
+      tx
+    );
+  });
+
+  return { intent, message: update.summary };
+};
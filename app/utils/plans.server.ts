@@ -0,0 +1,125 @@
+import { prisma } from "~/utils/db.server";
+import { revenueChargeWhere, sumNetRevenueBy } from "~/utils/revenue.server";
+
+export type PlanGroup = {
+  name: string;
+  shops: number;
+  installed: number;
+  active: number;
+  inactive: number;
+  unlimited: number;
+  metered: number;
+  // Mean of used / (used + available) across metered plans, null if none
+  averageUtilization: number | null;
+  revenue: number | null;
+};
+
+/**
+ * Plan rows are per-shop copies, so shops are grouped by plan name. Revenue
+ * is the lifetime net revenue billed under each plan name, by the plan
+ * recorded on each charge as /revenue does, so money earned on an earlier
+ * plan stays with it. It is left null unless `includeBilling` is set.
+ */
+export const getPlanGroups = async ({
+  includeBilling,
+  includeTestCharges = false,
+}: {
+  includeBilling: boolean;
+  includeTestCharges?: boolean;
+}): Promise<PlanGroup[]> => {
+  const [plans, revenueByPlanId] = await Promise.all([
+    prisma.plan.findMany({
+      where: { Shop: { isNot: null } },
+      select: {
+        name: true,
+        isActive: true,
+        hasUnlimitedGenerations: true,
+        availableGenerations: true,
+        totalGenerationsUsed: true,
+        Shop: { select: { isUninstalled: true } },
+      },
+    }),
+    includeBilling
+      ? sumNetRevenueBy("planId", revenueChargeWhere(includeTestCharges))
+      : null,
+  ]);
+
+  // BillingLog only stores the plan ID, which may belong to a plan row that
+  // is no longer the one in `plans`, so look up every name
+  const revenueByName = new Map<string, number>();
+  if (revenueByPlanId) {
+    const charged = await prisma.plan.findMany({
+      where: {
+        id: {
+          in: [...revenueByPlanId.keys()].filter(
+            (id): id is string => id !== null
+          ),
+        },
+      },
+      select: { id: true, name: true },
+    });
+    charged.forEach((plan) => {
+      revenueByName.set(
+        plan.name,
+        (revenueByName.get(plan.name) ?? 0) +
+          (revenueByPlanId.get(plan.id) ?? 0)
+      );
+    });
+  }
+
+  const groups = new Map<string, PlanGroup & { utilizations: number[] }>();
+  plans.forEach((plan) => {
+    const group = groups.get(plan.name) ?? {
+      name: plan.name,
+      shops: 0,
+      installed: 0,
+      active: 0,
+      inactive: 0,
+      unlimited: 0,
+      metered: 0,
+      averageUtilization: null,
+      revenue: revenueByPlanId ? revenueByName.get(plan.name) ?? 0 : null,
+      utilizations: [],
+    };
+    group.shops += 1;
+    if (!plan.Shop?.isUninstalled) group.installed += 1;
+    if (plan.isActive) group.active += 1;
+    else group.inactive += 1;
+    if (plan.hasUnlimitedGenerations) {
+      group.unlimited += 1;
+    } else {
+      group.metered += 1;
+      const allowance = plan.totalGenerationsUsed + plan.availableGenerations;
+      if (allowance > 0) {
+        group.utilizations.push(plan.totalGenerationsUsed / allowance);
+      }
+    }
+    groups.set(plan.name, group);
+  });
+
+  return [...groups.values()]
+    .map(({ utilizations, ...group }) => ({
+      ...group,
+      averageUtilization:
+        utilizations.length > 0
+          ? utilizations.reduce((sum, value) => sum + value, 0) /
+            utilizations.length
+          : null,
+    }))
+    .sort((a, b) => b.shops - a.shops || a.name.localeCompare(b.name));
+};
+
+/** Shops with no plan at all, newest first, and how many there are. */
+export const getShopsWithoutPlan = async ({ take = 100 } = {}) => {
+  const where = { planId: null };
+  const [shops, total] = await Promise.all([
+    prisma.shop.findMany({
+      where,
+      select: { id: true, domain: true, createdAt: true, isUninstalled: true },
+      orderBy: { createdAt: "desc" },
+      take,
+    }),
+    prisma.shop.count({ where }),
+  ]);
+  return { shops, total };
+};
@@ -0,0 +1,75 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import { getConversionBy, type ConversionRow } from "~/utils/conversion.server";
+
+export type ProductDetails = {
+  productId: string;
+  productName: string;
+  productHandle: string;
+  productImage: string;
+  productCategory: string | null;
+};
+
+export type ProductRow = ConversionRow &
+  ProductDetails & { uniqueShoppers: number };
+
+/**
+ * Name, handle, image and category as of the product's latest generation,
+ * since merchants can rename products or swap images over time.
+ */
+export const getProductDetails = async (productIds: string[]) => {
+  if (productIds.length === 0) return new Map<string, ProductDetails>();
+  // DISTINCT ON keeps one row per product in the database
+  const products = await prisma.$queryRaw<ProductDetails[]>`
+    SELECT DISTINCT ON ("productId")
+      "productId", "productName", "productHandle", "productImage", "productCategory"
+    FROM "Generation"
+    WHERE "productId" IN (${Prisma.join(productIds)})
+    ORDER BY "productId", "createdAt" DESC
+  `;
+  return new Map<string, ProductDetails>(
+    products.map((product) => [product.productId, product])
+  );
+};
+
+/**
+ * Distinct shopper emails per product. Grouping on both columns gives one
+ * row per shopper and product, which are then counted per product.
+ */
+export const countUniqueShoppers = async (
+  productIds: string[],
+  where: Prisma.GenerationWhereInput = {}
+) => {
+  const pairs = await prisma.generation.groupBy({
+    by: ["productId", "userEmail"],
+    where: { AND: [where, { productId: { in: productIds } }] },
+  });
+  const counts = new Map<string, number>();
+  pairs.forEach((pair) => {
+    counts.set(pair.productId, (counts.get(pair.productId) ?? 0) + 1);
+  });
+  return counts;
+};
+
+/** Most tried-on products matching `where`, with details and shopper counts. */
+export const getTopProducts = async (
+  where: Prisma.GenerationWhereInput,
+  { take = 25 }: { take?: number } = {}
+): Promise<ProductRow[]> => {
+  const rows = await getConversionBy("productId", where, { take });
+  const productIds = rows.map((row) => row.key);
+  const [details, shoppers] = await Promise.all([
+    getProductDetails(productIds),
+    countUniqueShoppers(productIds, where),
+  ]);
+
+  return rows.map((row) => ({
+    ...row,
+    productId: row.key,
+    productName: details.get(row.key)?.productName ?? "",
+    productHandle: details.get(row.key)?.productHandle ?? "",
+    productImage: details.get(row.key)?.productImage ?? "",
+    productCategory: details.get(row.key)?.productCategory ?? null,
+    uniqueShoppers: shoppers.get(row.key) ?? 0,
+  }));
+};
@@ -0,0 +1,113 @@
+import type { Prisma } from "@prisma/client";
+
+export const REDACTED = "[REDACTED]";
+
+// Keys whose values are secrets wherever they appear, compared after
+// lower-casing and dropping "-" and "_" (so X-Shopify-Access-Token,
+// access_token and accessToken all match "accesstoken").
+const SECRET_KEY_PATTERNS = [
+  "authorization",
+  "proxyauthorization",
+  "cookie",
+  "setcookie",
+  "accesstoken",
+  "refreshtoken",
+  "idtoken",
+  "token",
+  "apikey",
+  "apisecret",
+  "clientsecret",
+  "secret",
+  "password",
+  "xshopifyhmacsha256",
+  "hmac",
+];
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[-_]/g, "");
+
+const isSecretKey = (key: string) => {
+  const normalized = normalizeKey(key);
+  return SECRET_KEY_PATTERNS.some(
+    (pattern) =>
+      normalized === pattern ||
+      normalized.endsWith(pattern) ||
+      normalized.startsWith(pattern)
+  );
+};
+
+/**
+ * Extra JSON paths to redact, from `REDACTED_JSON_PATHS` as a comma separated
+ * list of dot paths. `*` matches any key or array index, e.g.
+ * `customer.email,line_items.*.properties`.
+ */
+const getConfiguredPaths = () =>
+  (process.env.REDACTED_JSON_PATHS || "")
+    .split(",")
+    .map((path) => path.trim())
+    .filter(Boolean)
+    .map((path) => path.split("."));
+
+const matchesPath = (path: string[], pattern: string[]) =>
+  path.length === pattern.length &&
+  pattern.every((segment, index) => segment === "*" || segment === path[index]);
+
+const redactValue = (
+  value: Prisma.JsonValue,
+  path: string[],
+  patterns: string[][]
+): Prisma.JsonValue => {
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      redactValue(item, [...path, String(index)], patterns)
+    );
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        const itemPath = [...path, key];
+        if (
+          isSecretKey(key) ||
+          patterns.some((pattern) => matchesPath(itemPath, pattern))
+        ) {
+          return [key, REDACTED];
+        }
+        return [key, redactValue(item ?? null, itemPath, patterns)];
+      })
+    );
+  }
+  return value;
+};
+
+/** Masks secret-looking keys and configured paths anywhere in a JSON value. */
+export const redactJson = (value: Prisma.JsonValue | null) => {
+  if (value === null) return null;
+  return redactValue(value, [], getConfiguredPaths());
+};
+
+/**
+ * Redacts the JSON columns of an API log. Every loader returning `body`,
+ * `headers` or `response` must pass the rows through here.
+ */
+export const redactLog = <
+  T extends {
+    body?: Prisma.JsonValue | null;
+    headers?: Prisma.JsonValue | null;
+    response?: Prisma.JsonValue | null;
+  }
+>(
+  log: T
+): T => ({
+  ...log,
+  ...("body" in log && { body: redactJson(log.body ?? null) }),
+  ...("headers" in log && { headers: redactJson(log.headers ?? null) }),
+  ...("response" in log && { response: redactJson(log.response ?? null) }),
+});
+
+/**
+ * Keeps the last four characters of a token so it can be matched against
+ * what a merchant reports, without exposing a usable value.
+ */
+export const maskSecret = (secret: string | null | undefined) => {
+  if (!secret) return null;
+  return secret.length > 8 ? `${"•".repeat(8)}${secret.slice(-4)}` : REDACTED;
+};
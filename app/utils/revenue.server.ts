@@ -0,0 +1,313 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+
+/**
+ * Shopify takes a revenue share on app charges once an app's gross revenue
+ * for the calendar year passes a threshold. `upTo` is the cumulative
+ * year-to-date gross the tier applies up to; `null` means no upper bound.
+ */
+export type RevenueShareTier = { upTo: number | null; rate: number };
+
+export type FeeSchedule = {
+  effectiveFrom: string; // yyyy-MM-dd, inclusive
+  percentageFee: number;
+  fixedFee: number; // per paid transaction
+  revenueShareTiers: RevenueShareTier[];
+};
+
+export type RevenueSegment = {
+  start: Date;
+  end: Date | null; // exclusive
+  percentageFee: number;
+  fixedFee: number;
+  revenueShare: number;
+};
+
+export type RevenueCalculator = {
+  segments: RevenueSegment[];
+  net: (price: number, timestamp: Date) => number;
+};
+
+const DEFAULT_FEE_SCHEDULES: FeeSchedule[] = [
+  {
+    effectiveFrom: "1970-01-01",
+    percentageFee: 0.029, // 2.90% transaction fee
+    fixedFee: 0,
+    revenueShareTiers: [{ upTo: null, rate: 0 }],
+  },
+];
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Charge ID substrings and exact prices that mark a test charge. Override
+// with comma-separated `TEST_CHARGE_ID_MARKERS` / `TEST_CHARGE_PRICES`.
+const testChargeIdMarkers = () =>
+  (process.env.TEST_CHARGE_ID_MARKERS ?? "test")
+    .split(",")
+    .map((marker) => marker.trim())
+    .filter(Boolean);
+
+const testChargePrices = () =>
+  (process.env.TEST_CHARGE_PRICES ?? "")
+    .split(",")
+    .filter((price) => price.trim() !== "")
+    .map(Number)
+    .filter((price) => !isNaN(price));
+
+let cachedCalculator: {
+  calculator: RevenueCalculator;
+  expiresAt: number;
+} | null = null;
+
+const isFeeSchedule = (value: unknown): value is FeeSchedule => {
+  const schedule = value as FeeSchedule;
+  return (
+    !!schedule &&
+    typeof schedule.effectiveFrom === "string" &&
+    !isNaN(new Date(schedule.effectiveFrom).getTime()) &&
+    typeof schedule.percentageFee === "number" &&
+    typeof schedule.fixedFee === "number" &&
+    Array.isArray(schedule.revenueShareTiers) &&
+    schedule.revenueShareTiers.length > 0 &&
+    schedule.revenueShareTiers.every(
+      (tier) =>
+        typeof tier.rate === "number" &&
+        (tier.upTo === null || typeof tier.upTo === "number")
+    )
+  );
+};
+
+/**
+ * The fee schedules in effect over time, oldest first. Set
+ * `REVENUE_FEE_SCHEDULES` to a JSON array of `FeeSchedule` to override the
+ * built-in 2.9% fee.
+ */
+export const getFeeSchedules = (): FeeSchedule[] => {
+  const raw = process.env.REVENUE_FEE_SCHEDULES;
+  if (!raw) return DEFAULT_FEE_SCHEDULES;
+
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error("REVENUE_FEE_SCHEDULES must be a non-empty JSON array");
+  }
+  if (!parsed.every(isFeeSchedule)) {
+    throw new Error("REVENUE_FEE_SCHEDULES contains an invalid fee schedule");
+  }
+  return [...parsed].sort((a, b) =>
+    a.effectiveFrom.localeCompare(b.effectiveFrom)
+  );
+};
+
+/**
+ * A charge counts as a test charge when its shop allows test payments, or
+ * its charge ID or price matches one of the configured test patterns.
+ */
+export const isTestCharge = (
+  log: { chargeId: string | null; price: number },
+  shop: { allowTestPayment: boolean }
+) =>
+  shop.allowTestPayment ||
+  testChargeIdMarkers().some((marker) =>
+    log.chargeId?.toLowerCase().includes(marker.toLowerCase())
+  ) ||
+  testChargePrices().includes(log.price);
+
+// The inverse of `isTestCharge`. Each charge ID marker check also accepts a
+// null charge ID, which a plain NOT on `contains` would leave out.
+export const realChargeWhere = (): Prisma.BillingLogWhereInput => ({
+  AND: [
+    { Shop: { allowTestPayment: false } },
+    ...testChargeIdMarkers().map((marker) => ({
+      OR: [
+        { chargeId: null },
+        {
+          NOT: {
+            chargeId: { contains: marker, mode: "insensitive" as const },
+          },
+        },
+      ],
+    })),
+    { price: { notIn: testChargePrices() } },
+  ],
+});
+
+export const parseIncludeTestCharges = (searchParams: URLSearchParams) =>
+  searchParams.get("includeTest") === "1";
+
+// Billing log filter for revenue figures, honouring the test charge toggle
+export const revenueChargeWhere = (
+  includeTestCharges: boolean
+): Prisma.BillingLogWhereInput => (includeTestCharges ? {} : realChargeWhere());
+
+const scheduleStart = (schedule: FeeSchedule) =>
+  new Date(`${schedule.effectiveFrom}T00:00:00Z`);
+
+const scheduleAt = (schedules: FeeSchedule[], time: number) =>
+  [...schedules]
+    .reverse()
+    .find((schedule) => scheduleStart(schedule).getTime() <= time) ??
+  schedules[0];
+
+const tierIndexFor = (tiers: RevenueShareTier[], yearToDate: number) => {
+  const index = tiers.findIndex(
+    (tier) => tier.upTo === null || yearToDate < tier.upTo
+  );
+  return index === -1 ? tiers.length - 1 : index;
+};
+
+const hasTieredShare = (schedules: FeeSchedule[]) =>
+  schedules.some(
+    (schedule) =>
+      new Set(schedule.revenueShareTiers.map((tier) => tier.rate)).size > 1
+  );
+
+/**
+ * Splits time into segments where the fee schedule and revenue share tier
+ * are constant. Tier changes are found by walking year-to-date gross. Each
+ * charge is billed at the tier of the gross before it, so the charge that
+ * crosses a threshold still uses the old tier and the one after it starts
+ * the next tier.
+ */
+const buildSegments = async (
+  schedules: FeeSchedule[]
+): Promise<RevenueSegment[]> => {
+  // Segment start time -> tier index starting there (null keeps the tier)
+  const breakpoints = new Map<number, number | null>();
+  schedules.forEach((schedule) =>
+    breakpoints.set(scheduleStart(schedule).getTime(), null)
+  );
+
+  if (hasTieredShare(schedules)) {
+    // Shopify only takes its share of real charges
+    const logs = await prisma.billingLog.findMany({
+      where: { AND: [{ price: { gt: 0 } }, realChargeWhere()] },
+      select: { price: true, timestamp: true },
+      orderBy: { timestamp: "asc" },
+    });
+
+    let year = -1;
+    let yearToDate = 0;
+    let tierIndex = 0;
+    for (const log of logs) {
+      if (log.timestamp.getUTCFullYear() !== year) {
+        year = log.timestamp.getUTCFullYear();
+        yearToDate = 0;
+        tierIndex = 0;
+        breakpoints.set(Date.UTC(year, 0, 1), 0);
+      }
+      const schedule = scheduleAt(schedules, log.timestamp.getTime());
+      const nextTier = tierIndexFor(schedule.revenueShareTiers, yearToDate);
+      if (nextTier !== tierIndex) {
+        tierIndex = nextTier;
+        breakpoints.set(log.timestamp.getTime(), tierIndex);
+      }
+      yearToDate += log.price;
+    }
+  }
+
+  const times = [...breakpoints.keys()].sort((a, b) => a - b);
+  let tierIndex = 0;
+  return times.map((time, i) => {
+    const schedule = scheduleAt(schedules, time);
+    tierIndex = breakpoints.get(time) ?? tierIndex;
+    const tiers = schedule.revenueShareTiers;
+    return {
+      // The earliest schedule also covers anything billed before it
+      start: new Date(i === 0 ? 0 : time),
+      end: i + 1 < times.length ? new Date(times[i + 1]) : null,
+      percentageFee: schedule.percentageFee,
+      fixedFee: schedule.fixedFee,
+      revenueShare: tiers[Math.min(tierIndex, tiers.length - 1)].rate,
+    };
+  });
+};
+
+const netForSegment = (
+  segment: RevenueSegment,
+  gross: number,
+  paidTransactions: number
+) =>
+  gross * (1 - segment.percentageFee - segment.revenueShare) -
+  paidTransactions * segment.fixedFee;
+
+/**
+ * Loads (and caches) the revenue calculator for the configured fee
+ * schedules. Use `net` for individual charges; use `sumNetRevenueByShop`
+ * for aggregates.
+ */
+export const getRevenueCalculator = async (): Promise<RevenueCalculator> => {
+  if (cachedCalculator && cachedCalculator.expiresAt > Date.now()) {
+    return cachedCalculator.calculator;
+  }
+
+  const segments = await buildSegments(getFeeSchedules());
+  const segmentFor = (timestamp: Date) =>
+    [...segments].reverse().find((segment) => segment.start <= timestamp) ??
+    segments[0];
+
+  const calculator: RevenueCalculator = {
+    segments,
+    net: (price, timestamp) =>
+      price > 0 ? netForSegment(segmentFor(timestamp), price, 1) : price,
+  };
+  cachedCalculator = { calculator, expiresAt: Date.now() + CACHE_TTL_MS };
+  return calculator;
+};
+
+/**
+ * Net revenue per shop or plan for billing logs matching `where`,
+ * aggregated with one groupBy per fee segment so each charge uses the fee
+ * in effect then. Refunds and other rows priced at zero or less count at
+ * face value, as they do in `net`. Charges without a plan are keyed null.
+ */
+export const sumNetRevenueBy = async (
+  field: "shopId" | "planId",
+  where: Prisma.BillingLogWhereInput
+): Promise<Map<string | null, number>> => {
+  const { segments } = await getRevenueCalculator();
+
+  const [adjustments, ...rowsBySegment] = await Promise.all([
+    prisma.billingLog.groupBy({
+      by: [field],
+      where: { AND: [where, { price: { lte: 0 } }] },
+      _sum: { price: true },
+    }),
+    ...segments.map((segment) =>
+      prisma.billingLog.groupBy({
+        by: [field],
+        where: {
+          AND: [
+            where,
+            { price: { gt: 0 } },
+            {
+              timestamp: {
+                gte: segment.start,
+                ...(segment.end && { lt: segment.end }),
+              },
+            },
+          ],
+        },
+        _sum: { price: true },
+        _count: { _all: true },
+      })
+    ),
+  ]);
+
+  const totals = new Map<string | null, number>(
+    adjustments.map((row) => [row[field], row._sum.price ?? 0])
+  );
+  rowsBySegment.forEach((rows, i) => {
+    rows.forEach((row) => {
+      const net = netForSegment(
+        segments[i],
+        row._sum.price ?? 0,
+        row._count._all
+      );
+      totals.set(row[field], (totals.get(row[field]) ?? 0) + net);
+    });
+  });
+  return totals;
+};
+
+export const sumNetRevenueByShop = (where: Prisma.BillingLogWhereInput) =>
+  sumNetRevenueBy("shopId", where) as Promise<Map<string, number>>;
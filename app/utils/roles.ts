@@ -0,0 +1,56 @@
+import type { AdminRole } from "@prisma/client";
+
+export type Permission =
+  | "dashboard:view"
+  | "shops:pii"
+  | "shoppers:pii"
+  | "billing:view"
+  | "logs:view"
+  | "plans:manage"
+  | "churn:manage"
+  | "secrets:view"
+  | "alerts:manage"
+  | "audit:view"
+  | "users:manage";
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  VIEWER: "Viewer",
+  SUPPORT: "Support",
+  FINANCE: "Finance",
+  ADMIN: "Admin",
+};
+
+// Viewers see aggregate stats only. Support can look at merchant contact
+// details and API logs, fix plan credits and record uninstall reasons,
+// finance at billing data.
+// End-shopper emails, secrets, alert rules, the audit log and user
+// management stay with admins.
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  VIEWER: ["dashboard:view"],
+  SUPPORT: [
+    "dashboard:view",
+    "shops:pii",
+    "logs:view",
+    "plans:manage",
+    "churn:manage",
+  ],
+  FINANCE: ["dashboard:view", "billing:view"],
+  ADMIN: [
+    "dashboard:view",
+    "shops:pii",
+    "shoppers:pii",
+    "billing:view",
+    "logs:view",
+    "plans:manage",
+    "churn:manage",
+    "secrets:view",
+    "alerts:manage",
+    "audit:view",
+    "users:manage",
+  ],
+};
+
+export const can = (
+  role: AdminRole | null | undefined,
+  permission: Permission
+) => !!role && ROLE_PERMISSIONS[role].includes(permission);
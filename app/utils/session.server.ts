@@ -0,0 +1,22 @@
+import { createCookieSessionStorage } from "@remix-run/node";
+
+const sessionSecret = process.env.SESSION_SECRET;
+
+if (!sessionSecret && process.env.NODE_ENV === "production") {
+  throw new Error("SESSION_SECRET must be set in production");
+}
+
+export const sessionStorage = createCookieSessionStorage({
+  cookie: {
+    name: "__fitsee_admin",
+    httpOnly: true,
+    path: "/",
+    sameSite: "lax",
+    secrets: [sessionSecret || "fitsee-dashboard-dev-secret"],
+    secure: process.env.NODE_ENV === "production",
+    maxAge: 60 * 60 * 12, // 12 hours
+  },
+});
+
+export const getSession = (request: Request) =>
+  sessionStorage.getSession(request.headers.get("Cookie"));
@@ -0,0 +1,133 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import { getShopMetric } from "~/utils/shopStats.server";
+import { parseIncludeTestCharges } from "~/utils/revenue.server";
+import {
+  getDateRangeFilter,
+  type DateRangeFilter,
+} from "~/utils/dateFilters.server";
+
+export type ShopSort = "created" | "generations" | "revenue" | "activity";
+
+export type ShopFilters = {
+  q: string;
+  status: "all" | "active" | "uninstalled";
+  plan: string;
+  testPayment: "all" | "yes" | "no";
+  // Install date, from the shared date range picker
+  installed: DateRangeFilter;
+  sort: ShopSort;
+  dir: "asc" | "desc";
+  includeTest: boolean;
+};
+
+const SORTS: ShopSort[] = ["created", "generations", "revenue", "activity"];
+
+export const parseShopFilters = (
+  searchParams: URLSearchParams
+): ShopFilters => {
+  const status = searchParams.get("status");
+  const testPayment = searchParams.get("testPayment");
+  const sort = searchParams.get("sort") as ShopSort;
+
+  return {
+    q: (searchParams.get("q") || "").trim(),
+    status: status === "active" || status === "uninstalled" ? status : "all",
+    plan: searchParams.get("plan") || "",
+    testPayment:
+      testPayment === "yes" || testPayment === "no" ? testPayment : "all",
+    installed: getDateRangeFilter(searchParams, "all"),
+    sort: SORTS.includes(sort) ? sort : "created",
+    dir: searchParams.get("dir") === "asc" ? "asc" : "desc",
+    includeTest: parseIncludeTestCharges(searchParams),
+  };
+};
+
+/**
+ * Translates the /shops query bar into a Prisma filter. Email search is only
+ * applied for roles that are allowed to see merchant contact details.
+ */
+export const buildShopWhere = (
+  filters: ShopFilters,
+  { canSearchPii }: { canSearchPii: boolean }
+): Prisma.ShopWhereInput => {
+  const where: Prisma.ShopWhereInput = {};
+
+  if (filters.q) {
+    const contains = { contains: filters.q, mode: "insensitive" as const };
+    where.OR = [
+      { domain: contains },
+      { shopifyId: contains },
+      { country: contains },
+      ...(canSearchPii ? [{ email: contains }] : []),
+    ];
+  }
+
+  if (filters.status !== "all") {
+    where.isUninstalled = filters.status === "uninstalled";
+  }
+
+  if (filters.plan === "none") {
+    where.planId = null;
+  } else if (filters.plan) {
+    where.Plan = { name: filters.plan };
+  }
+
+  if (filters.testPayment !== "all") {
+    where.allowTestPayment = filters.testPayment === "yes";
+  }
+
+  if (filters.installed.range) {
+    where.createdAt = filters.installed.range;
+  }
+
+  return where;
+};
+
+/**
+ * Returns one page of shop IDs in the requested order (every matching ID
+ * when `take` is omitted). Generation counts and
+ * creation date sort in the database; revenue and last activity are
+ * aggregated per shop first, since Prisma cannot order by a relation sum/max.
+ */
+export const findSortedShopIds = async (
+  where: Prisma.ShopWhereInput,
+  filters: ShopFilters,
+  { skip, take }: { skip: number; take?: number }
+): Promise<string[]> => {
+  if (filters.sort === "created" || filters.sort === "generations") {
+    const shops = await prisma.shop.findMany({
+      where,
+      select: { id: true },
+      orderBy:
+        filters.sort === "created"
+          ? { createdAt: filters.dir }
+          : [{ Generation: { _count: filters.dir } }, { createdAt: "desc" }],
+      skip,
+      take,
+    });
+    return shops.map((shop) => shop.id);
+  }
+
+  const [shops, metricByShop] = await Promise.all([
+    prisma.shop.findMany({
+      where,
+      select: { id: true },
+      orderBy: { createdAt: "desc" },
+    }),
+    getShopMetric(where, filters.sort, {
+      includeTestCharges: filters.includeTest,
+    }),
+  ]);
+
+  const direction = filters.dir === "asc" ? 1 : -1;
+
+  // Array.prototype.sort is stable, so ties keep the newest-first order
+  return shops
+    .map((shop) => shop.id)
+    .sort(
+      (a, b) =>
+        ((metricByShop.get(a) ?? 0) - (metricByShop.get(b) ?? 0)) * direction
+    )
+    .slice(skip, take === undefined ? undefined : skip + take);
+};
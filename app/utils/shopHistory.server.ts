@@ -0,0 +1,68 @@
+import type { Prisma } from "@prisma/client";
+import { parseCategoryFilter } from "~/utils/categories.server";
+import type { DateRangeCondition } from "~/utils/dateFilters.server";
+
+export const SHOP_HISTORY_PAGE_SIZE = 25;
+
+export type GenerationFilters = {
+  product: string;
+  category: string;
+  addedToCart: "all" | "yes" | "no";
+  userEmail: string;
+};
+
+/**
+ * Reads the shop page's generation filters, shared with its generations
+ * export. Shopper email search is dropped for roles that only see masked
+ * emails, since matches would reveal them.
+ */
+export const parseGenerationFilters = (
+  searchParams: URLSearchParams,
+  { canSearchPii }: { canSearchPii: boolean }
+): GenerationFilters => {
+  const addedToCart = searchParams.get("addedToCart");
+  return {
+    product: (searchParams.get("product") || "").trim(),
+    category: parseCategoryFilter(searchParams).category,
+    addedToCart:
+      addedToCart === "yes" || addedToCart === "no" ? addedToCart : "all",
+    userEmail: canSearchPii ? (searchParams.get("userEmail") || "").trim() : "",
+  };
+};
+
+export const buildGenerationWhere = (
+  shopId: string,
+  filters: GenerationFilters,
+  range: DateRangeCondition | undefined
+): Prisma.GenerationWhereInput => {
+  const contains = (value: string) => ({
+    contains: value,
+    mode: "insensitive" as const,
+  });
+  const categoryWhere = parseCategoryFilter(
+    new URLSearchParams({ category: filters.category })
+  ).where;
+
+  return {
+    AND: [
+      { shopId, ...(range && { createdAt: range }) },
+      categoryWhere,
+      filters.product
+        ? {
+            OR: [
+              { productId: filters.product },
+              { productName: contains(filters.product) },
+            ],
+          }
+        : {},
+      filters.addedToCart === "all"
+        ? {}
+        : { addedToCart: filters.addedToCart === "yes" },
+      filters.userEmail ? { userEmail: contains(filters.userEmail) } : {},
+    ],
+  };
+};
+
+// 1-based page number from a search param
+export const parsePage = (searchParams: URLSearchParams, name: string) =>
+  Math.max(parseInt(searchParams.get(name) || "1", 10) || 1, 1);
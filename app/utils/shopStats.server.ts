@@ -0,0 +1,98 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import {
+  revenueChargeWhere,
+  sumNetRevenueByShop,
+} from "~/utils/revenue.server";
+
+export type ShopStats = {
+  generations: number;
+  lastActivityAt: Date | null;
+  revenue: number | null;
+  transactions: number | null;
+};
+
+const emptyStats = (includeBilling: boolean): ShopStats => ({
+  generations: 0,
+  lastActivityAt: null,
+  revenue: includeBilling ? 0 : null,
+  transactions: includeBilling ? 0 : null,
+});
+
+/**
+ * Per-shop generation counts, net revenue and last generation time for a
+ * page of shops, computed with groupBy instead of loading every row.
+ * Billing figures are left null unless `includeBilling` is set, and count
+ * real charges only unless `includeTestCharges` is set.
+ */
+export const getShopStats = async (
+  shopIds: string[],
+  {
+    includeBilling,
+    includeTestCharges = false,
+  }: { includeBilling: boolean; includeTestCharges?: boolean }
+): Promise<Record<string, ShopStats>> => {
+  const stats: Record<string, ShopStats> = Object.fromEntries(
+    shopIds.map((id) => [id, emptyStats(includeBilling)])
+  );
+  if (shopIds.length === 0) return stats;
+
+  const billingWhere: Prisma.BillingLogWhereInput = {
+    AND: [{ shopId: { in: shopIds } }, revenueChargeWhere(includeTestCharges)],
+  };
+
+  const [generationRows, billingRows, netRevenue] = await Promise.all([
+    prisma.generation.groupBy({
+      by: ["shopId"],
+      where: { shopId: { in: shopIds } },
+      _count: { _all: true },
+      _max: { createdAt: true },
+    }),
+    includeBilling
+      ? prisma.billingLog.groupBy({
+          by: ["shopId"],
+          where: billingWhere,
+          _count: { _all: true },
+        })
+      : Promise.resolve([]),
+    includeBilling
+      ? sumNetRevenueByShop(billingWhere)
+      : Promise.resolve(new Map<string, number>()),
+  ]);
+
+  for (const row of generationRows) {
+    stats[row.shopId].generations = row._count._all;
+    stats[row.shopId].lastActivityAt = row._max.createdAt;
+  }
+  for (const row of billingRows) {
+    stats[row.shopId].revenue = netRevenue.get(row.shopId) ?? 0;
+    stats[row.shopId].transactions = row._count._all;
+  }
+
+  return stats;
+};
+
+/**
+ * A single sortable metric for every shop matching `where`, keyed by shop ID.
+ * Shops without any rows are absent from the map.
+ */
+export const getShopMetric = async (
+  where: Prisma.ShopWhereInput,
+  metric: "revenue" | "activity",
+  { includeTestCharges = false }: { includeTestCharges?: boolean } = {}
+): Promise<Map<string, number>> => {
+  if (metric === "revenue") {
+    return sumNetRevenueByShop({
+      AND: [{ Shop: where }, revenueChargeWhere(includeTestCharges)],
+    });
+  }
+
+  const rows = await prisma.generation.groupBy({
+    by: ["shopId"],
+    where: { Shop: where },
+    _max: { createdAt: true },
+  });
+  return new Map(
+    rows.map((row) => [row.shopId, row._max.createdAt?.getTime() ?? 0])
+  );
+};
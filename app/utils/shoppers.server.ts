@@ -0,0 +1,125 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import {
+  generationSqlWhere,
+  type GenerationSqlFilter,
+} from "~/utils/conversion.server";
+
+export type ShopperDistributionBucket = { label: string; shoppers: number };
+
+export type ShopperStats = {
+  uniqueShoppers: number;
+  repeatShoppers: number;
+  repeatRate: number;
+  distribution: ShopperDistributionBucket[];
+};
+
+export type TopShopper = {
+  shopId: string;
+  userEmail: string;
+  generations: number;
+  addedToCart: number;
+};
+
+// Generations-per-shopper buckets, as [label, min, max]
+const DISTRIBUTION_BUCKETS: [string, number, number][] = [
+  ["1", 1, 1],
+  ["2", 2, 2],
+  ["3-5", 3, 5],
+  ["6-10", 6, 10],
+  ["11+", 11, Infinity],
+];
+
+/**
+ * Keeps the first character of the local part and the domain, so support
+ * can still tell shoppers apart without seeing who they are.
+ */
+export const maskEmail = (email: string) => {
+  const at = email.lastIndexOf("@");
+  if (at < 1) return "***";
+  return `${email[0]}***${email.slice(at)}`;
+};
+
+/**
+ * Unique shoppers, repeat rate and how many generations each shopper made,
+ * counted in the database from one row per shopper email.
+ */
+export const getShopperStats = async (
+  filter: GenerationSqlFilter
+): Promise<ShopperStats> => {
+  const buckets = DISTRIBUTION_BUCKETS.map(
+    ([, min, max]) =>
+      Prisma.sql`COUNT(*) FILTER (WHERE "generations" >= ${min}${
+        max === Infinity
+          ? Prisma.empty
+          : Prisma.sql` AND "generations" <= ${max}`
+      })::int`
+  );
+  const [stats] = await prisma.$queryRaw<
+    { uniqueShoppers: number; repeatShoppers: number; buckets: number[] }[]
+  >`
+    SELECT
+      COUNT(*)::int AS "uniqueShoppers",
+      COUNT(*) FILTER (WHERE "generations" > 1)::int AS "repeatShoppers",
+      ARRAY[${Prisma.join(buckets)}] AS "buckets"
+    FROM (
+      SELECT COUNT(*) AS "generations"
+      FROM "Generation"
+      ${generationSqlWhere(filter)}
+      GROUP BY "userEmail"
+    ) AS "shoppers"
+  `;
+
+  return {
+    uniqueShoppers: stats.uniqueShoppers,
+    repeatShoppers: stats.repeatShoppers,
+    repeatRate:
+      stats.uniqueShoppers > 0
+        ? stats.repeatShoppers / stats.uniqueShoppers
+        : 0,
+    distribution: DISTRIBUTION_BUCKETS.map(([label], i) => ({
+      label,
+      shoppers: stats.buckets[i],
+    })),
+  };
+};
+
+/**
+ * Most active shoppers per shop. The same email in two shops counts as two
+ * shoppers, since merchants only ever see their own customers. Emails are
+ * masked unless `revealEmails` is set.
+ */
+export const getTopShoppers = async (
+  where: Prisma.GenerationWhereInput,
+  { take = 10, revealEmails }: { take?: number; revealEmails: boolean }
+): Promise<TopShopper[]> => {
+  const top = await prisma.generation.groupBy({
+    by: ["shopId", "userEmail"],
+    where,
+    _count: { _all: true },
+    orderBy: { _count: { userEmail: "desc" } },
+    take,
+  });
+
+  const converted = await prisma.generation.groupBy({
+    by: ["shopId", "userEmail"],
+    where: {
+      AND: [
+        where,
+        { addedToCart: true },
+        { userEmail: { in: top.map((row) => row.userEmail) } },
+      ],
+    },
+    _count: { _all: true },
+  });
+  const convertedByPair = new Map(
+    converted.map((row) => [`${row.shopId}:${row.userEmail}`, row._count._all])
+  );
+
+  return top.map((row) => ({
+    shopId: row.shopId,
+    userEmail: revealEmails ? row.userEmail : maskEmail(row.userEmail),
+    generations: row._count._all,
+    addedToCart: convertedByPair.get(`${row.shopId}:${row.userEmail}`) ?? 0,
+  }));
+};
@@ -0,0 +1,263 @@
+import { prisma } from "~/utils/db.server";
+import { getUninstallDates } from "~/utils/churn.server";
+import { isTestCharge } from "~/utils/revenue.server";
+import { maskEmail } from "~/utils/shoppers.server";
+import {
+  TIMELINE_TYPES,
+  isTimelineType,
+  type TimelineType,
+} from "~/utils/timeline";
+
+export const TIMELINE_PAGE_SIZE = 50;
+
+export type TimelineEvent = { id: string; at: Date } & (
+  | {
+      type: "lifecycle";
+      event: "install" | "uninstall" | "plan-reset";
+      detail: string | null;
+    }
+  | {
+      type: "billing";
+      eventType: string;
+      credits: number;
+      price: number;
+      isTest: boolean;
+    }
+  | { type: "webhook"; topic: string }
+  | { type: "log"; method: string; endpoint: string; status: number }
+  | {
+      type: "generation";
+      productId: string;
+      productName: string;
+      productImage: string;
+      userEmail: string;
+      addedToCart: boolean;
+    }
+);
+
+// Position of the last event on the previous page
+type TimelineCursor = { at: Date; type: TimelineType; id: string };
+
+type TimelineShop = {
+  id: string;
+  domain: string;
+  createdAt: Date;
+  updatedAt: Date;
+  isUninstalled: boolean;
+  allowTestPayment: boolean;
+  Plan: { name: string; lastResetAt: Date | null } | null;
+};
+
+const rank = (type: TimelineType) => TIMELINE_TYPES.indexOf(type);
+
+// Newest first, then by type and ID so events at the same instant keep a
+// stable order across pages
+const compareEvents = (
+  a: { at: Date; type: TimelineType; id: string },
+  b: { at: Date; type: TimelineType; id: string }
+) =>
+  b.at.getTime() - a.at.getTime() ||
+  rank(a.type) - rank(b.type) ||
+  (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+export const encodeTimelineCursor = (event: TimelineEvent) =>
+  `${event.at.toISOString()}_${event.type}_${event.id}`;
+
+export const parseTimelineCursor = (
+  value: string | null
+): TimelineCursor | null => {
+  const [at, type, ...id] = (value || "").split("_");
+  const date = new Date(at);
+  if (!at || isNaN(date.getTime()) || !isTimelineType(type)) return null;
+  return { at: date, type, id: id.join("_") };
+};
+
+/**
+ * Condition on a source's timestamp and ID that keeps only events sorting
+ * after the cursor.
+ */
+const after = (
+  cursor: TimelineCursor | null,
+  type: TimelineType,
+  field: string
+) => {
+  if (!cursor) return {};
+  if (rank(type) > rank(cursor.type)) {
+    return { [field]: { lte: cursor.at } };
+  }
+  if (rank(type) < rank(cursor.type)) {
+    return { [field]: { lt: cursor.at } };
+  }
+  return {
+    OR: [
+      { [field]: { lt: cursor.at } },
+      { [field]: cursor.at, id: { lt: cursor.id } },
+    ],
+  };
+};
+
+// Install, uninstall and plan reset, which are stored on the shop itself
+const getLifecycleEvents = async (
+  shop: TimelineShop
+): Promise<TimelineEvent[]> => {
+  const uninstall = (await getUninstallDates([shop])).get(shop.id);
+  const events: TimelineEvent[] = [
+    {
+      type: "lifecycle",
+      id: "install",
+      event: "install",
+      at: shop.createdAt,
+      detail: null,
+    },
+  ];
+  if (uninstall) {
+    events.push({
+      type: "lifecycle",
+      id: "uninstall",
+      event: "uninstall",
+      at: uninstall.date,
+      detail:
+        uninstall.source === "updatedAt"
+          ? "Estimated from the shop's last update"
+          : null,
+    });
+  }
+  if (shop.Plan?.lastResetAt) {
+    events.push({
+      type: "lifecycle",
+      id: "plan-reset",
+      event: "plan-reset",
+      at: shop.Plan.lastResetAt,
+      detail: shop.Plan.name,
+    });
+  }
+  return events;
+};
+
+/**
+ * One page of a shop's activity, newest first, merged from generations,
+ * billing events, API logs, webhooks received for its domain and lifecycle
+ * events. Each source is queried for at most a page past the cursor, so
+ * the merged page is exact however busy any one source is.
+ */
+export const getShopTimeline = async (
+  shop: TimelineShop,
+  {
+    types,
+    cursor,
+    revealEmails,
+    take = TIMELINE_PAGE_SIZE,
+  }: {
+    types: TimelineType[];
+    cursor: TimelineCursor | null;
+    revealEmails: boolean;
+    take?: number;
+  }
+) => {
+  const include = (type: TimelineType) => types.includes(type);
+  const page = { take: take + 1 };
+
+  const [lifecycle, billingLogs, webhooks, logs, generations] =
+    await Promise.all([
+      include("lifecycle") ? getLifecycleEvents(shop) : [],
+      include("billing")
+        ? prisma.billingLog.findMany({
+            where: {
+              shopId: shop.id,
+              ...after(cursor, "billing", "timestamp"),
+            },
+            select: {
+              id: true,
+              eventType: true,
+              credits: true,
+              price: true,
+              chargeId: true,
+              timestamp: true,
+            },
+            orderBy: [{ timestamp: "desc" }, { id: "desc" }],
+            ...page,
+          })
+        : [],
+      include("webhook")
+        ? prisma.processedWebhook.findMany({
+            where: {
+              shopDomain: shop.domain,
+              ...after(cursor, "webhook", "receivedAt"),
+            },
+            orderBy: [{ receivedAt: "desc" }, { id: "desc" }],
+            ...page,
+          })
+        : [],
+      include("log")
+        ? prisma.log.findMany({
+            where: { shopId: shop.id, ...after(cursor, "log", "createdAt") },
+            select: {
+              id: true,
+              method: true,
+              endpoint: true,
+              status: true,
+              createdAt: true,
+            },
+            orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+            ...page,
+          })
+        : [],
+      include("generation")
+        ? prisma.generation.findMany({
+            where: {
+              shopId: shop.id,
+              ...after(cursor, "generation", "createdAt"),
+            },
+            select: {
+              id: true,
+              productId: true,
+              productName: true,
+              productImage: true,
+              userEmail: true,
+              addedToCart: true,
+              createdAt: true,
+            },
+            orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+            ...page,
+          })
+        : [],
+    ]);
+
+  const events: TimelineEvent[] = [
+    ...lifecycle.filter((event) => !cursor || compareEvents(cursor, event) < 0),
+    ...billingLogs.map(({ timestamp, chargeId, ...log }) => ({
+      ...log,
+      type: "billing" as const,
+      at: timestamp,
+      isTest: isTestCharge({ chargeId, price: log.price }, shop),
+    })),
+    ...webhooks.map((webhook) => ({
+      type: "webhook" as const,
+      id: webhook.id,
+      at: webhook.receivedAt,
+      topic: webhook.topic,
+    })),
+    ...logs.map(({ createdAt, ...log }) => ({
+      ...log,
+      type: "log" as const,
+      at: createdAt,
+    })),
+    ...generations.map(({ createdAt, ...generation }) => ({
+      ...generation,
+      type: "generation" as const,
+      at: createdAt,
+      userEmail: revealEmails
+        ? generation.userEmail
+        : maskEmail(generation.userEmail),
+    })),
+  ].sort(compareEvents);
+
+  const pageEvents = events.slice(0, take);
+  return {
+    events: pageEvents,
+    nextCursor:
+      events.length > take
+        ? encodeTimelineCursor(pageEvents[pageEvents.length - 1])
+        : null,
+  };
+};
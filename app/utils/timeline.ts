@@ -0,0 +1,21 @@
+// Event sources on a shop's activity timeline. Events at the same instant
+// are listed in this order.
+export const TIMELINE_TYPES = [
+  "lifecycle",
+  "billing",
+  "webhook",
+  "log",
+  "generation",
+] as const;
+export type TimelineType = (typeof TIMELINE_TYPES)[number];
+
+export const TIMELINE_TYPE_LABELS: Record<TimelineType, string> = {
+  lifecycle: "Install & plan",
+  billing: "Billing",
+  webhook: "Webhooks",
+  log: "API logs",
+  generation: "Generations",
+};
+
+export const isTimelineType = (value: unknown): value is TimelineType =>
+  TIMELINE_TYPES.includes(value as TimelineType);
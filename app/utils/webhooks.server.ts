@@ -0,0 +1,197 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "~/utils/db.server";
+import type { DateRangeCondition } from "~/utils/dateFilters.server";
+import { UNINSTALL_TOPIC } from "~/utils/churn.server";
+
+export type WebhookRow = {
+  key: string;
+  count: number;
+  lastReceivedAt: Date | null;
+};
+
+export type StaleTopic = {
+  topic: string;
+  lastReceivedAt: Date;
+  // Average gap between deliveries over the baseline window, in hours
+  expectedEveryHours: number | null;
+};
+
+export type UninstallMismatch = {
+  shopId: string;
+  domain: string;
+  kind: "missed-uninstall" | "no-webhook";
+  uninstalledWebhookAt: Date | null;
+  updatedAt: Date;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Webhook counts and latest delivery per topic or shop domain, busiest
+ * first.
+ */
+export const getWebhooksBy = async (
+  field: "topic" | "shopDomain",
+  where: Prisma.ProcessedWebhookWhereInput,
+  { take }: { take?: number } = {}
+): Promise<WebhookRow[]> => {
+  const rows = await prisma.processedWebhook.groupBy({
+    by: [field],
+    where,
+    _count: { _all: true },
+    _max: { receivedAt: true },
+    orderBy: { _count: { [field]: "desc" } },
+    take,
+  });
+  return rows.map((row) => ({
+    key: row[field],
+    count: row._count._all,
+    lastReceivedAt: row._max.receivedAt,
+  }));
+};
+
+/**
+ * Daily webhook counts for the given topics, one key per topic, for a
+ * multi-line chart, counted per day in the reporting timezone by the
+ * database. Other topics are left out.
+ */
+export const getWebhookTimeline = async (
+  { range, shopDomain }: { range?: DateRangeCondition; shopDomain?: string },
+  topics: string[],
+  timezone: string
+) => {
+  if (topics.length === 0) return [];
+  const conditions = [
+    Prisma.sql`"topic" IN (${Prisma.join(topics)})`,
+    range?.gte && Prisma.sql`"receivedAt" >= ${range.gte}`,
+    range?.lt && Prisma.sql`"receivedAt" < ${range.lt}`,
+    shopDomain && Prisma.sql`"shopDomain" = ${shopDomain}`,
+  ].filter((condition): condition is Prisma.Sql => !!condition);
+
+  const rows = await prisma.$queryRaw<
+    { date: string; topic: string; count: number }[]
+  >`
+    SELECT
+      to_char(("receivedAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timezone}, 'YYYY-MM-DD') AS "date",
+      "topic",
+      COUNT(*)::int AS "count"
+    FROM "ProcessedWebhook"
+    WHERE ${Prisma.join(conditions, " AND ")}
+    GROUP BY 1, 2
+    ORDER BY 1
+  `;
+
+  const days: Record<string, string | number>[] = [];
+  rows.forEach((row) => {
+    let day = days[days.length - 1];
+    if (!day || day.date !== row.date) {
+      day = {
+        date: row.date,
+        ...Object.fromEntries(topics.map((topic) => [topic, 0])),
+      };
+      days.push(day);
+    }
+    day[row.topic] = row.count;
+  });
+  return days;
+};
+
+/**
+ * Topics that have gone quiet: nothing received for `factor` times their
+ * usual gap over the last `baselineDays`, and for at least `minHours`.
+ * Topics with no deliveries in the baseline at all are always included.
+ */
+export const getStaleTopics = async ({
+  baselineDays = 30,
+  factor = 3,
+  minHours = 24,
+}: {
+  baselineDays?: number;
+  factor?: number;
+  minHours?: number;
+} = {}): Promise<StaleTopic[]> => {
+  const now = new Date();
+  const baselineStart = new Date(now.getTime() - baselineDays * 24 * HOUR_MS);
+
+  const [allTime, baseline] = await Promise.all([
+    prisma.processedWebhook.groupBy({
+      by: ["topic"],
+      _max: { receivedAt: true },
+    }),
+    prisma.processedWebhook.groupBy({
+      by: ["topic"],
+      where: { receivedAt: { gte: baselineStart } },
+      _count: { _all: true },
+    }),
+  ]);
+  const baselineCounts = new Map(
+    baseline.map((row) => [row.topic, row._count._all])
+  );
+
+  return allTime
+    .flatMap((row) => {
+      const lastReceivedAt = row._max.receivedAt;
+      if (!lastReceivedAt) return [];
+      const count = baselineCounts.get(row.topic) ?? 0;
+      const expectedEveryHours = count > 0 ? (baselineDays * 24) / count : null;
+      const silentHours = (now.getTime() - lastReceivedAt.getTime()) / HOUR_MS;
+      const isStale =
+        expectedEveryHours === null ||
+        silentHours >= Math.max(expectedEveryHours * factor, minHours);
+      return isStale
+        ? [{ topic: row.topic, lastReceivedAt, expectedEveryHours }]
+        : [];
+    })
+    .sort((a, b) => b.lastReceivedAt.getTime() - a.lastReceivedAt.getTime());
+};
+
+/**
+ * Shops whose `isUninstalled` flag disagrees with the webhooks: still marked
+ * installed although an uninstall webhook arrived after their last update,
+ * or marked uninstalled without any uninstall webhook for their domain.
+ */
+export const getUninstallMismatches = async ({
+  take = 50,
+}: { take?: number } = {}): Promise<UninstallMismatch[]> => {
+  const uninstalls = await prisma.processedWebhook.groupBy({
+    by: ["shopDomain"],
+    where: { topic: UNINSTALL_TOPIC },
+    _max: { receivedAt: true },
+  });
+  const uninstalledAt = new Map(
+    uninstalls.map((row) => [row.shopDomain, row._max.receivedAt])
+  );
+  const domains = [...uninstalledAt.keys()];
+
+  const [stillInstalled, withoutWebhook] = await Promise.all([
+    prisma.shop.findMany({
+      where: { isUninstalled: false, domain: { in: domains } },
+      select: { id: true, domain: true, updatedAt: true },
+    }),
+    prisma.shop.findMany({
+      where: { isUninstalled: true, domain: { notIn: domains } },
+      select: { id: true, domain: true, updatedAt: true },
+      orderBy: { updatedAt: "desc" },
+      take,
+    }),
+  ]);
+
+  const missed: UninstallMismatch[] = stillInstalled
+    .filter((shop) => uninstalledAt.get(shop.domain)! > shop.updatedAt)
+    .map((shop) => ({
+      shopId: shop.id,
+      domain: shop.domain,
+      kind: "missed-uninstall",
+      uninstalledWebhookAt: uninstalledAt.get(shop.domain)!,
+      updatedAt: shop.updatedAt,
+    }));
+  const unconfirmed: UninstallMismatch[] = withoutWebhook.map((shop) => ({
+    shopId: shop.id,
+    domain: shop.domain,
+    kind: "no-webhook",
+    uninstalledWebhookAt: null,
+    updatedAt: shop.updatedAt,
+  }));
+
+  return [...missed, ...unconfirmed].slice(0, take);
+};